@@ -5,30 +5,40 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import chalk from 'chalk';
 import ora from 'ora';
-import { LocalzConfig, LocaleFile } from './types';
+import { LocalzConfig, LocaleFile, LocaleReport, FormatName, XliffVersion, ConversionLoss } from './types';
 import { spawn } from 'child_process';
 import { UniversalParser } from './core/universal-parser';
 import { Validator } from './core/validator';
 import { Fixer } from './core/fixer';
 import { Translator } from './core/translator';
 import { ReportGenerator } from './core/report-generator';
+import { XLIFFConverter } from './core/xliff';
+import { LocaleNamespaces } from './core/namespaces';
+import { FormatConverter } from './core/converter';
+import { FormatRegistry } from './core/format-registry';
+import { RuleRegistry } from './core/rule-registry';
 import { LocalzApp } from './tui/app';
 import { ZLocalzUpdater } from './utils/updater';
 import { SetupWizard } from './utils/setup-wizard';
+import { LocaleTag } from './utils/locale-tag';
+import { FlutterL10n, UntranslatedMismatch } from './utils/flutter-l10n';
 import { z } from 'zod';
 
+const RuleSeveritySchema = z.enum(['off', 'warning', 'error']);
+
 const ConfigSchema = z.object({
   flutterLocalesPath: z.string(),
   sourceLocale: z.string(),
   targetLocales: z.array(z.string()),
-  fileFormat: z.enum(['arb', 'json', 'yaml', 'yml', 'csv', 'tsv', 'auto']).default('auto'),
+  // Built-in or registered through `formats`; checked against the format registry once loaded
+  fileFormat: z.string().default('auto'),
   filePattern: z.string().optional(),
   doAutoFix: z.boolean().default(false),
   translateMissing: z.boolean().default(false),
   geminiModel: z.string().optional(),
   geminiApiKey: z.string().optional(),
   styleGuidelines: z.string().optional(),
-  domainGlossary: z.record(z.string()).optional(),
+  domainGlossary: z.record(z.union([z.string(), z.record(z.string())])).optional(),
   doNotTranslate: z.array(z.string()).optional(),
   preferOrder: z.enum(['mirror-source', 'alphabetical']).optional(),
   csvOptions: z.object({
@@ -36,6 +46,37 @@ const ConfigSchema = z.object({
     keyColumn: z.string().optional(),
     valueColumns: z.record(z.string()).optional()
   }).optional(),
+  jsonOptions: z.object({
+    mode: z.enum(['flat', 'nested', 'i18next']).optional(),
+    keySeparator: z.string().optional(),
+    pluralSeparator: z.string().optional(),
+    contextSeparator: z.string().optional(),
+    contexts: z.array(z.string()).optional()
+  }).optional(),
+  arbOptions: z.object({
+    updateLastModified: z.boolean().optional()
+  }).optional(),
+  untranslatedOptions: z.object({
+    allow: z.array(z.string()).optional(),
+    locales: z.record(z.array(z.string())).optional(),
+    minLength: z.number().int().min(0).optional()
+  }).optional(),
+  lengthOptions: z.object({
+    maxRatio: z.number().positive().optional(),
+    locales: z.record(z.number().positive()).optional()
+  }).optional(),
+  glossaryOptions: z.object({
+    caseSensitive: z.boolean().optional(),
+    inflection: z.number().int().min(0).optional()
+  }).optional(),
+  formats: z.array(z.string()).optional(),
+  untranslatedMessagesFile: z.string().optional(),
+  rules: z.record(RuleSeveritySchema).optional(),
+  ruleOverrides: z.array(z.object({
+    locales: z.array(z.string()).optional(),
+    keys: z.array(z.string()).optional(),
+    rules: z.record(RuleSeveritySchema)
+  })).optional(),
   autoUpdate: z.boolean().default(true)
 });
 
@@ -67,7 +108,8 @@ program
   .option('-p, --path <path>', 'Flutter locales path')
   .option('-s, --source <locale>', 'Source locale')
   .option('-t, --targets <locales...>', 'Target locales')
-  .option('-f, --format <format>', 'File format (arb, json, yaml, csv, tsv, auto)', 'auto')
+  // No default, so an unset flag leaves the format from the config file or l10n.yaml alone
+  .option('-f, --format <format>', 'File format (arb, json, yaml, csv, tsv, xml, strings, stringsdict, xcstrings, po, pot, properties, resx, ftl, auto; default: auto)')
   .option('--pattern <pattern>', 'Custom file pattern')
   .option('--auto-fix', 'Auto-fix issues')
   .option('--translate', 'Translate missing keys')
@@ -120,6 +162,67 @@ program
     }
   });
 
+program
+  .command('export')
+  .description('Export source strings for translation agencies')
+  .option('-c, --config <path>', 'Path to config file', './zlocalz.config.json')
+  .option('--xliff', 'Export one XLIFF file per target locale')
+  .option('--xliff-version <version>', 'XLIFF version (1.2, 2.0)', '1.2')
+  .option('-o, --output <dir>', 'Output directory', './xliff')
+  .action(async (options) => {
+    try {
+      if (!options.xliff) {
+        throw new Error('No export format selected. Use --xliff');
+      }
+      if (!['1.2', '2.0'].includes(options.xliffVersion)) {
+        throw new Error(`Unsupported XLIFF version: ${options.xliffVersion}`);
+      }
+      const config = await loadConfig(options);
+      await runExport(config, options.output, options.xliffVersion);
+    } catch (error) {
+      console.error(chalk.red('Error:'), error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('import <files...>')
+  .description('Import translated XLIFF files into target locale files')
+  .option('-c, --config <path>', 'Path to config file', './zlocalz.config.json')
+  .option('--force', 'Write files even if validation reports errors')
+  .action(async (files: string[], options) => {
+    try {
+      const config = await loadConfig(options);
+      await runImport(config, files, Boolean(options.force));
+    } catch (error) {
+      console.error(chalk.red('Error:'), error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('convert <input> <output>')
+  .description('Convert a locale file or a directory of locales to another format')
+  .option('-c, --config <path>', 'Path to config file', './zlocalz.config.json')
+  .option('-s, --source <locale>', 'Source locale')
+  .option('-t, --targets <locales...>', 'Target locales')
+  .option('--from <format>', 'Input format when converting a directory', 'auto')
+  .option('--to <format>', 'Output format (defaults to the output file extension)')
+  .option('--name <name>', 'Base name for generated files, e.g. app for app_en.arb')
+  .action(async (input: string, output: string, options) => {
+    try {
+      if (options.to === 'auto') {
+        throw new Error('--to needs a concrete format');
+      }
+      const config = await loadConfig({ ...options, path: input, format: options.from });
+      const to = options.to ? FormatRegistry.get(options.to).name : undefined;
+      await runConvert(config, input, output, to, options.name);
+    } catch (error) {
+      console.error(chalk.red('Error:'), error);
+      process.exit(1);
+    }
+  });
+
 program
   .command('update')
   .description('Update ZLocalz to the latest version')
@@ -209,12 +312,14 @@ async function runSetupWizard(): Promise<void> {
 
 async function loadConfig(options: any): Promise<LocalzConfig> {
   let config: any = {};
+  let configDir = process.cwd();
 
   if (options.config) {
     try {
       const configPath = path.resolve(options.config);
       const configContent = await fs.readFile(configPath, 'utf-8');
       config = JSON.parse(configContent);
+      configDir = path.dirname(configPath);
     } catch (error) {
       if (options.config !== './zlocalz.config.json') {
         throw new Error(`Failed to load config file: ${error}`);
@@ -222,6 +327,22 @@ async function loadConfig(options: any): Promise<LocalzConfig> {
     }
   }
 
+  // Flutter projects already describe their ARB layout in l10n.yaml; the
+  // config file and command-line flags take precedence over it
+  const l10n = await FlutterL10n.configure(configDir);
+  if (l10n) {
+    const usesArbDir = !options.path &&
+      (!config.flutterLocalesPath || path.resolve(config.flutterLocalesPath) === l10n.flutterLocalesPath);
+    config.sourceLocale ??= l10n.sourceLocale;
+    config.untranslatedMessagesFile ??= l10n.settings.untranslatedMessagesFile;
+    if (usesArbDir) {
+      config.flutterLocalesPath ??= l10n.flutterLocalesPath;
+      config.targetLocales ??= l10n.targetLocales;
+      config.fileFormat ??= 'arb';
+      config.filePattern ??= l10n.filePattern;
+    }
+  }
+
   if (options.path) config.flutterLocalesPath = options.path;
   if (options.source) config.sourceLocale = options.source;
   if (options.targets) config.targetLocales = options.targets;
@@ -233,7 +354,32 @@ async function loadConfig(options: any): Promise<LocalzConfig> {
 
   config.geminiApiKey = config.geminiApiKey || process.env.GEMINI_API_KEY;
 
-  return ConfigSchema.parse(config);
+  const parsed = ConfigSchema.parse(config);
+  // Locales may be written en-US or en_US; everything internal uses the underscore form
+  parsed.sourceLocale = LocaleTag.canonicalize(parsed.sourceLocale);
+  parsed.targetLocales = parsed.targetLocales.map(locale => LocaleTag.canonicalize(locale));
+
+  for (const modulePath of parsed.formats || []) {
+    try {
+      await FormatRegistry.load(modulePath, configDir);
+    } catch (error) {
+      throw new Error(`Failed to load format module ${modulePath}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+  if (parsed.fileFormat !== 'auto') {
+    parsed.fileFormat = FormatRegistry.get(parsed.fileFormat).name;
+  }
+
+  const ruleNames = [
+    ...Object.keys(parsed.rules || {}),
+    ...(parsed.ruleOverrides || []).flatMap(override => Object.keys(override.rules))
+  ];
+  for (const rule of ruleNames) {
+    if (!RuleRegistry.has(rule)) {
+      throw new Error(`Unknown rule "${rule}" in config; available rules: ${RuleRegistry.all().map(r => r.name).join(', ')}`);
+    }
+  }
+  return parsed;
 }
 
 async function launchTUI(config: LocalzConfig): Promise<void> {
@@ -250,7 +396,7 @@ async function launchTUI(config: LocalzConfig): Promise<void> {
     
     await app.initialize(sourceFile, Array.from(targetFiles.values()));
 
-    const validator = new Validator(sourceFile, Array.from(targetFiles.values()));
+    const validator = new Validator(sourceFile, Array.from(targetFiles.values()), config);
     const reports = validator.validate();
     
     const issues = new Map();
@@ -280,11 +426,13 @@ async function runCLI(config: LocalzConfig): Promise<void> {
     const formats = [...new Set([sourceFile.format, ...Array.from(targetFiles.values()).map(f => f.format)])];
     spinner.succeed(`Found ${targetFiles.size + 1} files (${formats.join(', ')})`);
 
-    const validator = new Validator(sourceFile, Array.from(targetFiles.values()));
+    const validator = new Validator(sourceFile, Array.from(targetFiles.values()), config);
     const reports = validator.validate();
 
     displayValidationResults(reports);
 
+    const untranslatedMismatches = await crossCheckUntranslated(config, reports);
+
     const originalFiles = new Map(
       Array.from(targetFiles.entries()).map(([k, v]) => [k, structuredClone(v) as LocaleFile])
     );
@@ -344,6 +492,9 @@ async function runCLI(config: LocalzConfig): Promise<void> {
       translations,
       originalFiles
     );
+    if (untranslatedMismatches.length > 0) {
+      report.summary.notes.push(`gen_l10n untranslated messages differ for ${untranslatedMismatches.map(m => m.locale).join(', ')}`);
+    }
 
     await fs.writeFile('zlocalz-report.json', JSON.stringify(report, null, 2));
     spinner.succeed('Report saved to zlocalz-report.json');
@@ -363,6 +514,198 @@ async function runCLI(config: LocalzConfig): Promise<void> {
   }
 }
 
+async function runExport(config: LocalzConfig, outputDir: string, version: XliffVersion): Promise<void> {
+  const spinner = ora('Exporting XLIFF files...').start();
+
+  try {
+    const { sourceFile, targetFiles } = await loadLocaleFiles(config);
+    const outputPath = path.resolve(outputDir);
+    await fs.mkdir(outputPath, { recursive: true });
+
+    for (const locale of config.targetLocales) {
+      const content = XLIFFConverter.serialize(sourceFile, targetFiles.get(locale), locale, version);
+      await fs.writeFile(path.join(outputPath, `${locale}.xlf`), content, 'utf-8');
+    }
+
+    spinner.succeed(`Exported ${config.targetLocales.length} XLIFF ${version} files to ${outputPath}`);
+  } catch (error) {
+    spinner.fail('Export failed');
+    throw error;
+  }
+}
+
+async function runConvert(
+  config: LocalzConfig,
+  input: string,
+  output: string,
+  to: FormatName | undefined,
+  name: string | undefined
+): Promise<void> {
+  const spinner = ora('Converting locale files...').start();
+
+  try {
+    const parser = new UniversalParser(config);
+    const inputPath = path.resolve(input);
+    const outputPath = path.resolve(output);
+    const isDirectory = (await fs.stat(inputPath)).isDirectory();
+    const files = isDirectory ? await parser.discoverFiles(inputPath) : [inputPath];
+
+    const localeFiles: LocaleFile[] = [];
+    for (const file of files) {
+      localeFiles.push(...await parser.parseAllLocalesFromFile(file));
+    }
+    const unknown = localeFiles.filter(file => file.locale === 'unknown');
+    const convertible = localeFiles.filter(file => file.locale !== 'unknown');
+    if (convertible.length === 0) {
+      throw new Error(`No locale files found in ${input}`);
+    }
+
+    // An output path with the format's extension is a single file; anything else is a directory
+    const format = to || UniversalParser.detectFormat(outputPath);
+    const intoFile = path.extname(outputPath) !== '' && UniversalParser.detectFormat(outputPath) === format;
+    if (!to && !intoFile) {
+      throw new Error(`Cannot tell the output format from ${output}; pass --to <format>`);
+    }
+    const locales = new Set(convertible.map(file => file.locale));
+    if (intoFile && locales.size > 1 && !FormatConverter.isMultiLocale(format)) {
+      throw new Error(`${format} holds one locale per file; pass an output directory and --to ${format} to convert ${locales.size} locales`);
+    }
+
+    // A .pot template and the .po files made with it identify messages by source text
+    const sourceFiles = convertible.filter(file => LocaleTag.equals(file.locale, config.sourceLocale));
+    const template = format === 'pot' && sourceFiles.length > 0
+      ? { ...sourceFiles[0], entries: Object.assign({}, ...sourceFiles.map(file => file.entries)) }
+      : undefined;
+
+    const losses: ConversionLoss[] = [];
+    for (const localeFile of convertible) {
+      let target = FormatConverter.plan(localeFile.locale, format, outputPath, config.sourceLocale, name);
+      if (intoFile) {
+        target = { format, path: outputPath };
+      } else if (convertible.filter(file => file.locale === localeFile.locale).length > 1) {
+        // A locale split over several files keeps the input layout (locales/en/auth.json → out/en/auth.arb)
+        const relative = path.relative(isDirectory ? inputPath : path.dirname(inputPath), localeFile.path);
+        const extension = FormatConverter.extension(target.format);
+        target.path = path.join(outputPath, relative.slice(0, relative.length - path.extname(relative).length) + extension);
+      }
+
+      const converted = FormatConverter.convert(localeFile, target.format, target.path, template);
+      await parser.writeFile(converted.file);
+      losses.push(...converted.losses);
+    }
+
+    spinner.succeed(`Converted ${locales.size} locales to ${format} in ${path.relative(process.cwd(), outputPath) || '.'}`);
+    if (unknown.length > 0) {
+      console.log(chalk.yellow(`  ⚠ Skipped ${unknown.length} files without a recognisable locale: ${unknown.map(file => path.basename(file.path)).join(', ')}`));
+    }
+    displayConversionLosses(losses, format);
+  } catch (error) {
+    spinner.fail('Conversion failed');
+    throw error;
+  }
+}
+
+function displayConversionLosses(losses: ConversionLoss[], format: FormatName): void {
+  if (losses.length === 0) return;
+
+  console.log('\n' + chalk.bold(`Not representable in ${format}:`));
+  const byField = new Map<string, ConversionLoss[]>();
+  for (const loss of losses) {
+    byField.set(loss.field, [...(byField.get(loss.field) || []), loss]);
+  }
+
+  for (const [field, fieldLosses] of byField) {
+    const keys = Array.from(new Set(fieldLosses.map(loss => loss.key)));
+    const examples = keys.slice(0, 5).join(', ') + (keys.length > 5 ? `, … (${keys.length - 5} more)` : '');
+    console.log(chalk.yellow(`  ⚠ ${field}: ${fieldLosses.length} entries (${examples})`));
+    for (const loss of fieldLosses.filter(loss => loss.detail).slice(0, 3)) {
+      console.log(chalk.gray(`      [${loss.locale}] ${loss.key}: ${loss.detail}`));
+    }
+  }
+}
+
+async function runImport(config: LocalzConfig, xliffPaths: string[], force: boolean): Promise<void> {
+  const spinner = ora('Importing XLIFF files...').start();
+
+  try {
+    const { sourceFile, targetFiles } = await loadLocaleFiles(config);
+    const updatedFiles = new Map<string, LocaleFile>();
+    const importedKeys = new Map<string, Set<string>>();
+    let skipped = 0;
+
+    for (const xliffPath of xliffPaths) {
+      const document = XLIFFConverter.parse(await fs.readFile(xliffPath, 'utf-8'));
+      const locale = document.targetLocale;
+      const original = targetFiles.get(locale);
+      if (!original) {
+        throw new Error(`No target file for locale '${locale}' (from ${xliffPath})`);
+      }
+
+      const file = updatedFiles.get(locale) || structuredClone(original) as LocaleFile;
+      const keys = importedKeys.get(locale) || new Set<string>();
+
+      for (const unit of document.units) {
+        const sourceEntry = sourceFile.entries[unit.id];
+        if (!unit.target || !sourceEntry) {
+          if (unit.target) skipped++;
+          continue;
+        }
+
+        if (file.entries[unit.id]) {
+          file.entries[unit.id].value = unit.target;
+        } else {
+          file.entries[unit.id] = {
+            key: unit.id,
+            value: unit.target,
+            metadata: sourceEntry.metadata,
+            description: sourceEntry.description,
+            placeholders: sourceEntry.placeholders
+          };
+        }
+        keys.add(unit.id);
+      }
+
+      updatedFiles.set(locale, file);
+      importedKeys.set(locale, keys);
+    }
+
+    const total = Array.from(importedKeys.values()).reduce((sum, keys) => sum + keys.size, 0);
+    spinner.succeed(`Imported ${total} translations for ${Array.from(updatedFiles.keys()).join(', ')}`);
+    if (skipped > 0) {
+      console.log(chalk.yellow(`  ⚠ Skipped ${skipped} units whose keys are not in the source locale`));
+    }
+
+    // Validate before anything touches disk
+    const validator = new Validator(sourceFile, Array.from(updatedFiles.values()), config);
+    const reports = validator.validate();
+    displayValidationResults(reports);
+
+    const blocking = Array.from(reports.values())
+      .flatMap(report => report.issues)
+      .filter(issue => issue.severity === 'error' && importedKeys.get(issue.locale)?.has(issue.key));
+
+    if (blocking.length > 0) {
+      console.log('\n' + chalk.bold('Errors in imported translations:'));
+      for (const issue of blocking) {
+        console.log(chalk.red(`  ✗ [${issue.locale}] ${issue.key}: ${issue.message}`));
+      }
+      if (!force) {
+        throw new Error(`${blocking.length} validation errors in imported translations; no files were written. Use --force to write anyway.`);
+      }
+    }
+
+    spinner.start('Writing updated files...');
+    const parser = new UniversalParser(config);
+    for (const file of updatedFiles.values()) {
+      await parser.writeFile(file);
+    }
+    spinner.succeed('Files updated');
+  } catch (error) {
+    spinner.fail('Import failed');
+    throw error;
+  }
+}
+
 async function loadLocaleFiles(config: LocalzConfig): Promise<{
   sourceFile: LocaleFile;
   targetFiles: Map<string, LocaleFile>;
@@ -375,18 +718,15 @@ async function loadLocaleFiles(config: LocalzConfig): Promise<{
     throw new Error(`No ${formats} files found in ${config.flutterLocalesPath}`);
   }
 
-  const allLocaleFiles: LocaleFile[] = [];
-  
-  // Handle CSV/TSV files that contain multiple locales
+  let allLocaleFiles: LocaleFile[] = [];
   for (const file of files) {
-    const format = UniversalParser.detectFormat(file);
-    if (format === 'csv' || format === 'tsv') {
-      const multiLocaleFiles = await parser.parseAllLocalesFromFile(file);
-      allLocaleFiles.push(...multiLocaleFiles);
-    } else {
-      const singleFile = await parser.parseFile(file);
-      allLocaleFiles.push(singleFile);
-    }
+    allLocaleFiles.push(...await parser.parseAllLocalesFromFile(file));
+  }
+
+  // Locales split over several files (locales/en/common.json, locales/en/auth.json) are merged into namespaced keys
+  if (LocaleNamespaces.isSplit(allLocaleFiles)) {
+    allLocaleFiles = Array.from(LocaleNamespaces.byLocale(allLocaleFiles).entries())
+      .map(([locale, files]) => LocaleNamespaces.merge(locale, files));
   }
 
   const sourceFile = allLocaleFiles.find(f => f.locale === config.sourceLocale);
@@ -406,6 +746,35 @@ async function loadLocaleFiles(config: LocalzConfig): Promise<{
   return { sourceFile, targetFiles };
 }
 
+// gen_l10n lists the messages it found untranslated; keys only one side
+// reports are shown so a stale file or a misread locale stands out
+async function crossCheckUntranslated(config: LocalzConfig, reports: Map<string, LocaleReport>): Promise<UntranslatedMismatch[]> {
+  if (!config.untranslatedMessagesFile) return [];
+
+  const untranslated = await FlutterL10n.readUntranslated(config.untranslatedMessagesFile);
+  if (!untranslated) return [];
+
+  const mismatches = FlutterL10n.crossCheck(untranslated, reports);
+  const file = path.relative(process.cwd(), config.untranslatedMessagesFile);
+  if (mismatches.length === 0) {
+    console.log(chalk.green(`\n✓ Missing keys match gen_l10n's ${file}`));
+    return mismatches;
+  }
+
+  console.log('\n' + chalk.bold(`Compared with gen_l10n (${file}):`));
+  const list = (keys: string[]) => keys.slice(0, 5).join(', ') + (keys.length > 5 ? `, … (${keys.length - 5} more)` : '');
+  for (const mismatch of mismatches) {
+    if (mismatch.onlyFlutter.length > 0) {
+      console.log(chalk.yellow(`  ⚠ ${mismatch.locale}: ${mismatch.onlyFlutter.length} untranslated only per gen_l10n (${list(mismatch.onlyFlutter)})`));
+    }
+    if (mismatch.onlyZlocalz.length > 0) {
+      console.log(chalk.yellow(`  ⚠ ${mismatch.locale}: ${mismatch.onlyZlocalz.length} missing not listed by gen_l10n (${list(mismatch.onlyZlocalz)})`));
+    }
+  }
+  console.log(chalk.gray('    Re-run `flutter gen-l10n` if the file is out of date'));
+  return mismatches;
+}
+
 function displayValidationResults(reports: Map<string, any>): void {
   console.log('\n' + chalk.bold('Validation Results:'));
   
@@ -436,6 +805,27 @@ function displayValidationResults(reports: Map<string, any>): void {
       if (stats.formattingWarnings > 0) {
         console.log(chalk.yellow(`  ⚠ Formatting warnings: ${stats.formattingWarnings}`));
       }
+      if (stats.localeMismatches > 0) {
+        console.log(chalk.red(`  ✗ Locale mismatches: ${stats.localeMismatches}`));
+      }
+      if (stats.genL10nErrors > 0) {
+        console.log(chalk.red(`  ✗ gen_l10n errors: ${stats.genL10nErrors}`));
+      }
+      if (stats.untranslated > 0) {
+        console.log(chalk.yellow(`  ⚠ Untranslated: ${stats.untranslated}`));
+      }
+      if (stats.lengthOverflows > 0) {
+        console.log(chalk.yellow(`  ⚠ Length overflows: ${stats.lengthOverflows}`));
+      }
+      if (stats.markupMismatches > 0) {
+        console.log(chalk.red(`  ✗ Markup mismatches: ${stats.markupMismatches}`));
+      }
+      if (stats.glossaryViolations > 0) {
+        console.log(chalk.yellow(`  ⚠ Glossary violations: ${stats.glossaryViolations}`));
+      }
+      if (stats.doNotTranslateViolations > 0) {
+        console.log(chalk.red(`  ✗ Do-not-translate violations: ${stats.doNotTranslateViolations}`));
+      }
     }
   }
 }
@@ -456,7 +846,7 @@ function setupAppHandlers(
         break;
       
       case 'validate':
-        const validator = new Validator(sourceFile, Array.from(targetFiles.values()));
+        const validator = new Validator(sourceFile, Array.from(targetFiles.values()), config);
         const reports = validator.validate();
         const issues = new Map();
         for (const [locale, report] of reports) {
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { ARBParser } from './arb-parser';
+
+const raw = {
+  '@@locale': 'en',
+  '@@x-generator': 'intl',
+  title: 'Title',
+  '@title': { description: 'Page title' },
+  '@@author': 'Jane'
+};
+
+describe('ARBParser', () => {
+  it('collects global attributes in file order', () => {
+    expect(ARBParser.globalAttributes(raw)).toEqual({ '@@locale': 'en', '@@x-generator': 'intl', '@@author': 'Jane' });
+    expect(Object.keys(ARBParser.globalAttributes(raw))).toEqual(['@@locale', '@@x-generator', '@@author']);
+    expect(ARBParser.globalAttributes({ title: 'Title' })).toEqual({});
+  });
+
+  it('adds @@last_modified after the leading global attributes', () => {
+    const date = new Date('2024-05-01T10:00:00Z');
+    expect(Object.entries(ARBParser.withLastModified({ '@@locale': 'en', title: 'Title' }, date))).toEqual([
+      ['@@locale', 'en'],
+      ['@@last_modified', '2024-05-01T10:00:00.000Z'],
+      ['title', 'Title']
+    ]);
+    expect(ARBParser.withLastModified({}, date)).toEqual({ '@@last_modified': '2024-05-01T10:00:00.000Z' });
+  });
+
+  it('updates @@last_modified where it already is', () => {
+    const date = new Date('2024-05-01T10:00:00Z');
+    const output = ARBParser.withLastModified({ '@@last_modified': '2020-01-01', title: 'Title', '@@locale': 'en' }, date);
+    expect(Object.entries(output)).toEqual([
+      ['@@last_modified', '2024-05-01T10:00:00.000Z'],
+      ['title', 'Title'],
+      ['@@locale', 'en']
+    ]);
+  });
+
+  it('reads @@locale with either separator', () => {
+    expect(ARBParser.declaredLocale({ '@@locale': 'pt-BR' })).toBe('pt_BR');
+    expect(ARBParser.declaredLocale({ '@@locale': '' })).toBeUndefined();
+    expect(ARBParser.declaredLocale({ '@@locale': 3 })).toBeUndefined();
+    expect(ARBParser.extractLocale('lib/l10n/app_zh_Hant.arb')).toBe('zh_Hant');
+  });
+});
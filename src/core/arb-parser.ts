@@ -2,10 +2,13 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import glob from 'fast-glob';
 import { ARBFile, ARBEntry } from '../types';
+import { LocaleTag } from '../utils/locale-tag';
+import { ICUArguments } from '../utils/icu-arguments';
 
 export class ARBParser {
   private static readonly ARB_PATTERN = '**/*.arb';
   private static readonly METADATA_PREFIX = '@';
+  private static readonly GLOBAL_PREFIX = '@@';
 
   static async discoverARBFiles(basePath: string): Promise<string[]> {
     const files = await glob(this.ARB_PATTERN, {
@@ -53,17 +56,45 @@ export class ARBParser {
   }
 
   static extractLocale(filePath: string): string {
-    const basename = path.basename(filePath, '.arb');
-    const parts = basename.split('_');
-    return parts[parts.length - 1] || 'unknown';
+    return LocaleTag.fromName(path.basename(filePath, '.arb')) || 'unknown';
   }
 
-  static async writeARBFile(arbFile: ARBFile): Promise<void> {
-    const output: Record<string, any> = {};
-    
-    if (arbFile.raw['@@locale']) {
-      output['@@locale'] = arbFile.raw['@@locale'];
+  // File-level attributes such as @@locale, @@last_modified, @@author and @@x-*, in file order
+  static globalAttributes<T>(raw: Record<string, T>): Record<string, T> {
+    const attributes: Record<string, T> = {};
+    for (const [key, value] of Object.entries(raw || {})) {
+      if (key.startsWith(this.GLOBAL_PREFIX)) attributes[key] = value;
     }
+    return attributes;
+  }
+
+  // Sets @@last_modified, adding it after the other global attributes when missing
+  static withLastModified<T>(output: Record<string, T>, date: Date = new Date()): Record<string, T | string> {
+    if ('@@last_modified' in output) {
+      return { ...output, '@@last_modified': date.toISOString() };
+    }
+
+    const result: Record<string, T | string> = {};
+    let added = false;
+    for (const [key, value] of Object.entries(output)) {
+      if (!added && !key.startsWith(this.GLOBAL_PREFIX)) {
+        result['@@last_modified'] = date.toISOString();
+        added = true;
+      }
+      result[key] = value;
+    }
+    if (!added) result['@@last_modified'] = date.toISOString();
+    return result;
+  }
+
+  // @@locale uses either separator (en-US or en_US); compared against the locale from the file name
+  static declaredLocale(raw: Record<string, unknown>): string | undefined {
+    const locale = raw?.['@@locale'];
+    return typeof locale === 'string' && locale ? LocaleTag.canonicalize(locale) : undefined;
+  }
+
+  static async writeARBFile(arbFile: ARBFile, options: { updateLastModified?: boolean } = {}): Promise<void> {
+    let output: Record<string, unknown> = this.globalAttributes(arbFile.raw);
 
     const keys = Object.keys(arbFile.entries);
     for (const key of keys) {
@@ -82,20 +113,16 @@ export class ARBParser {
       }
     }
 
+    if (options.updateLastModified) {
+      output = this.withLastModified(output);
+    }
+
     const content = JSON.stringify(output, null, 2) + '\n';
     await fs.writeFile(arbFile.path, content, 'utf-8');
   }
 
   static extractPlaceholders(value: string): string[] {
-    const placeholderRegex = /\{([^}]+)\}/g;
-    const placeholders: string[] = [];
-    let match;
-
-    while ((match = placeholderRegex.exec(value)) !== null) {
-      placeholders.push(match[1]);
-    }
-
-    return placeholders;
+    return ICUArguments.names(value);
   }
 
   static normalizeICUMessage(message: string): string {
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { FormatConverter } from './converter';
+import { FormatRegistry } from './format-registry';
+import { FormatName, LocaleEntry, LocaleFile, LocalzConfig } from '../types';
+
+const config = { sourceLocale: 'en', targetLocales: ['de'] } as unknown as LocalzConfig;
+
+function localeFile(locale: string, format: FormatName, values: Record<string, string>): LocaleFile {
+  const entries: Record<string, LocaleEntry> = {};
+  for (const [key, value] of Object.entries(values)) {
+    entries[key] = { key, value };
+  }
+  return { locale, path: `${locale}.${format}`, format, entries, raw: {} };
+}
+
+// Converts into `format`, writes and re-reads the file, then converts back to ARB
+async function roundTrip(file: LocaleFile, format: FormatName) {
+  const converted = FormatConverter.convert(file, format, `out/${file.locale}.${format}`);
+  const adapter = FormatRegistry.get(format);
+  const content = await adapter.serialize(converted.file, null, { config, filePath: converted.file.path });
+  const parsed = await adapter.parse(content, { config, filePath: converted.file.path, locale: file.locale, requested: adapter.multiLocale === true });
+  const back = FormatConverter.convert({ ...converted.file, entries: parsed.entries }, 'arb', `${file.locale}.arb`);
+  return {
+    content,
+    values: Object.fromEntries(Object.values(back.file.entries).map(entry => [entry.key, entry.value])),
+    losses: converted.losses.map(loss => [loss.key, loss.field, loss.detail])
+  };
+}
+
+const de = localeFile('de', 'arb', {
+  greeting: 'Hallo {name}!',
+  items: '{count, plural, =0{Keine Artikel} one{# Artikel} other{# Artikel}}'
+});
+
+describe('FormatConverter', () => {
+  it('rewrites placeholders and plurals as Fluent and back', async () => {
+    const { content, values, losses } = await roundTrip(de, 'ftl');
+    expect(content).toContain('greeting = Hallo { $name }!');
+    expect(content).toContain('[0] Keine Artikel');
+    expect(values).toEqual({ greeting: de.entries.greeting.value, items: de.entries.items.value });
+    expect(losses).toEqual([]);
+  });
+
+  it('reports Fluent values with no ICU form and leaves them out', () => {
+    const ftl = localeFile('en', 'ftl', { '-brand': 'Foxfire', welcome: 'Welcome to { -brand }, { $user }!' });
+    const { file, losses } = FormatConverter.convert(ftl, 'arb', 'app_en.arb');
+    expect(Object.keys(file.entries)).toEqual(['-brand']);
+    expect(losses).toEqual([{ locale: 'en', key: 'welcome', field: 'message', detail: '{ -brand } has no ICU equivalent' }]);
+  });
+
+  for (const format of ['po', 'stringsdict', 'xcstrings', 'xml'] as const) {
+    it(`keeps placeholders and plural categories through ${format}, reporting exact cases`, async () => {
+      const { values, losses } = await roundTrip(de, format);
+      expect(values).toEqual({
+        greeting: 'Hallo {name}!',
+        items: '{count, plural, one{# Artikel} other{# Artikel}}'
+      });
+      expect(losses).toEqual([['items', 'plurals', '=0']]);
+    });
+  }
+
+  it('reports categories a locale never selects for formats that follow its rules', () => {
+    const ja = localeFile('ja', 'arb', { items: '{count, plural, one{# 件} other{# 件}}' });
+    expect(FormatConverter.convert(ja, 'xml', 'values-ja/strings.xml').losses).toMatchObject([{ key: 'items', field: 'plurals', detail: 'one' }]);
+    expect(FormatConverter.convert(ja, 'stringsdict', 'ja.lproj/Localizable.stringsdict').losses).toEqual([]);
+  });
+
+  it('writes source text as the msgids of a template and its translations', async () => {
+    const en = localeFile('en', 'arb', {
+      save: 'Save',
+      store: 'Save',
+      items: '{count, plural, one{# item} other{# items}}'
+    });
+    const target = FormatConverter.plan('en', 'pot', 'out', 'en');
+    expect(target).toEqual({ format: 'pot', path: 'out/messages.pot' });
+
+    const pot = FormatConverter.convert(en, 'pot', target.path, en).file;
+    const content = await FormatRegistry.get('pot').serialize(pot, null, { config, filePath: target.path });
+    expect(content).toContain('msgid "Save"\nmsgstr ""');
+    expect(content).toContain('msgctxt "store"\nmsgid "Save"\nmsgstr ""');
+    expect(content).toContain('msgid "# item"\nmsgid_plural "# items"');
+    expect(content).not.toContain('msgid "save"');
+
+    const po = FormatConverter.convert(localeFile('de', 'arb', { save: 'Speichern', extra: 'Extra' }), 'po', 'out/de.po', en);
+    const poContent = await FormatRegistry.get('po').serialize(po.file, null, { config, filePath: 'out/de.po' });
+    expect(poContent).toContain('msgid "Save"\nmsgstr "Speichern"');
+    expect(po.losses).toMatchObject([{ key: 'extra', field: 'message' }]);
+  });
+});
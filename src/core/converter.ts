@@ -0,0 +1,216 @@
+import * as path from 'path';
+import { ConversionLoss, ConvertibleField, FormatName, LocaleEntry, LocaleFile, PortableField } from '../types';
+import { FormatRegistry } from './format-registry';
+import { AndroidStringsFormat } from './formats/android-strings';
+import { FluentFormat } from './formats/fluent';
+import { ICUPlural } from '../utils/icu-plural';
+import { LocaleTag } from '../utils/locale-tag';
+
+// Bundle names for formats whose files are not named after the locale alone
+const DEFAULT_NAMES: Record<string, string> = {
+  arb: 'app', csv: 'translations', tsv: 'translations', strings: 'Localizable', stringsdict: 'Localizable',
+  xcstrings: 'Localizable', pot: 'messages', properties: 'messages', resx: 'Resources', ftl: 'main'
+};
+
+export class FormatConverter {
+  static isMultiLocale(format: FormatName): boolean {
+    return FormatRegistry.get(format).multiLocale === true;
+  }
+
+  static extension(format: FormatName): string {
+    return FormatRegistry.get(format).extension;
+  }
+
+  // Where a locale goes when a whole set of locales is converted into a
+  // directory, following each format's usual layout (app_en.arb,
+  // values-pt-rBR/strings.xml, fr.lproj/Localizable.strings, ...). A .pot
+  // template only holds the source locale; translations become .po files.
+  static plan(
+    locale: string,
+    format: FormatName,
+    directory: string,
+    sourceLocale: string,
+    name: string = DEFAULT_NAMES[format] || 'messages'
+  ): { format: FormatName; path: string } {
+    const isSource = LocaleTag.equals(locale, sourceLocale);
+    const tag = LocaleTag.toBCP47(locale);
+
+    switch (format) {
+      case 'arb':
+        return { format, path: path.join(directory, `${name}_${locale}.arb`) };
+      case 'xml':
+        return { format, path: path.join(directory, AndroidStringsFormat.resourceFolder(locale, sourceLocale), 'strings.xml') };
+      case 'strings':
+      case 'stringsdict':
+        return { format, path: path.join(directory, `${tag}.lproj`, `${name}${this.extension(format)}`) };
+      case 'pot':
+        return isSource
+          ? { format, path: path.join(directory, `${name}.pot`) }
+          : { format: 'po', path: path.join(directory, `${locale}.po`) };
+      case 'properties':
+        return { format, path: path.join(directory, `${name}_${locale}.properties`) };
+      case 'resx':
+        return { format, path: path.join(directory, isSource ? `${name}.resx` : `${name}.${tag}.resx`) };
+      case 'ftl':
+        return { format, path: path.join(directory, tag, `${name}.ftl`) };
+      default:
+        // Multi-locale formats (CSV tables, string catalogs) share a single file
+        return this.isMultiLocale(format)
+          ? { format, path: path.join(directory, `${name}${this.extension(format)}`) }
+          : { format, path: path.join(directory, `${locale}${this.extension(format)}`) };
+    }
+  }
+
+  // Re-expresses a parsed locale file in another format. Descriptions,
+  // placeholders, context, tags and the translatable flag are carried over
+  // where the target format can store them, and values are rewritten between
+  // ICU and Fluent syntax; anything else is returned as a loss. Entries whose
+  // value cannot be expressed at all are left out.
+  //
+  // gettext catalogs made from a template (`sourceFile`) identify messages by
+  // their source text rather than by key, as translation tools expect.
+  static convert(
+    file: LocaleFile,
+    format: FormatName,
+    targetPath: string,
+    sourceFile?: LocaleFile
+  ): { file: LocaleFile; losses: ConversionLoss[] } {
+    const losses: ConversionLoss[] = [];
+    const entries: Record<string, LocaleEntry> = {};
+
+    for (const [key, entry] of Object.entries(file.entries)) {
+      const lose = (field: ConvertibleField, detail?: string) => {
+        losses.push({ locale: file.locale, key, field, ...(detail && { detail }) });
+      };
+      const converted = file.format === format ? { ...entry } : this.convertEntry(entry, file.format, format, file.locale, lose);
+      if (converted) entries[key] = converted;
+    }
+
+    if (sourceFile && (format === 'po' || format === 'pot')) {
+      this.useSourceMsgids(entries, sourceFile, (key, detail) => {
+        losses.push({ locale: file.locale, key, field: 'message', detail });
+      });
+    }
+
+    let raw: Record<string, unknown> = {};
+    if (file.format === format) {
+      raw = { ...file.raw };
+    } else if (format === 'arb') {
+      raw = { '@@locale': file.locale };
+    }
+
+    return {
+      file: { locale: file.locale, path: targetPath, format, entries, raw },
+      losses
+    };
+  }
+
+  static supports(format: FormatName, field: PortableField): boolean {
+    return FormatRegistry.get(format).fields?.includes(field) === true;
+  }
+
+  private static convertEntry(
+    entry: LocaleEntry,
+    from: FormatName,
+    to: FormatName,
+    locale: string,
+    lose: (field: ConvertibleField, detail?: string) => void
+  ): LocaleEntry | null {
+    let value: string;
+    try {
+      value = this.convertValue(entry.value, from, to);
+    } catch (error) {
+      lose('message', error instanceof Error ? error.message : String(error));
+      return null;
+    }
+
+    const converted: LocaleEntry = { key: entry.key, value };
+    const metadata: Record<string, unknown> = {};
+
+    if (entry.description) {
+      if (this.supports(to, 'description')) converted.description = entry.description;
+      else lose('description');
+    }
+    if (entry.placeholders && Object.keys(entry.placeholders).length > 0) {
+      if (this.supports(to, 'placeholders')) converted.placeholders = entry.placeholders;
+      else lose('placeholders', Object.keys(entry.placeholders).join(', '));
+    }
+    if (entry.context) {
+      if (this.supports(to, 'context')) converted.context = entry.context;
+      else lose('context', entry.context);
+    }
+    if (entry.tags && entry.tags.length > 0) {
+      if (this.supports(to, 'tags')) converted.tags = entry.tags;
+      else lose('tags', entry.tags.join(', '));
+    }
+    if (entry.metadata?.translatable === false) {
+      if (this.supports(to, 'translatable')) metadata.translatable = false;
+      else lose('translatable');
+    }
+
+    // Android only writes <plurals> for entries marked as such
+    if (to === 'xml' && ICUPlural.parse(value)) {
+      metadata.type = 'plurals';
+    }
+
+    const pluralCases = FormatRegistry.get(to).pluralCases;
+    if (pluralCases) {
+      const plurals = pluralCases === 'locale'
+        ? [ICUPlural.parse(value)]
+        : ICUPlural.split(value).filter(segment => typeof segment !== 'string');
+      const dropped = plurals.flatMap(plural => plural && typeof plural !== 'string'
+        ? ICUPlural.unsupportedCases(plural, pluralCases === 'locale' ? locale : undefined)
+        : []);
+      if (dropped.length > 0) lose('plurals', Array.from(new Set(dropped)).join(', '));
+    }
+
+    // Metadata keys that only record how an entry is laid out in its own format.
+    // The target format lays entries out itself, so these are not reported as lost.
+    const structural = FormatRegistry.get(from).structuralMetadata || [];
+    if (structural !== 'all' && entry.metadata) {
+      const unmapped = Object.keys(entry.metadata)
+        .filter(key => key !== 'translatable' && !structural.includes(key));
+      if (unmapped.length > 0) lose('metadata', unmapped.join(', '));
+    }
+
+    if (Object.keys(metadata).length > 0) converted.metadata = metadata;
+    return converted;
+  }
+
+  // Values are ICU messages everywhere but in Fluent
+  private static convertValue(value: string, from: FormatName, to: FormatName): string {
+    if (from === 'ftl' && to !== 'ftl') return FluentFormat.toICU(value);
+    if (to === 'ftl' && from !== 'ftl') return FluentFormat.fromICU(value);
+    return value;
+  }
+
+  // Makes each message's msgid the source text (and msgid_plural its
+  // `other` case). Messages sharing a source text are told apart by their
+  // key as msgctxt; ones the source does not have cannot be matched up.
+  private static useSourceMsgids(
+    entries: Record<string, LocaleEntry>,
+    sourceFile: LocaleFile,
+    lose: (key: string, detail: string) => void
+  ): void {
+    const used = new Set<string>();
+    for (const [key, entry] of Object.entries(entries)) {
+      const source = sourceFile.entries[key]?.value;
+      if (source === undefined) {
+        lose(key, 'not in the source locale, so it has no msgid');
+        delete entries[key];
+        continue;
+      }
+
+      const plural = ICUPlural.parse(source);
+      const msgid = plural ? (plural.forms.one ?? plural.forms.other ?? source) : source;
+      if (used.has(`${entry.context ?? ''}\u0004${msgid}`)) entry.context = key;
+      used.add(`${entry.context ?? ''}\u0004${msgid}`);
+
+      entry.metadata = {
+        ...entry.metadata,
+        msgid,
+        ...(plural?.forms.other !== undefined && { msgidPlural: plural.forms.other })
+      };
+    }
+  }
+}
@@ -1,5 +1,6 @@
 import { LocaleFile, ValidationIssue, Fix, LocalzConfig } from '../types';
 import * as lodash from 'lodash';
+import { ICUArguments } from '../utils/icu-arguments';
 
 export class Fixer {
   private config: LocalzConfig;
@@ -61,7 +62,7 @@ export class Fixer {
 
   private generateMissingKeyFix(issue: ValidationIssue): Fix {
     const sourceEntry = this.sourceFile.entries[issue.key];
-    const placeholders = this.extractPlaceholders(sourceEntry.value);
+    const placeholders = ICUArguments.names(sourceEntry.value);
     
     let newValue = 'TODO';
     if (placeholders.length > 0) {
@@ -105,10 +106,11 @@ export class Fixer {
       description: 'Cannot fix placeholder without source/target values'
     };
 
-    const sourcePlaceholders = this.extractPlaceholders(issue.sourceValue);
+    const sourcePlaceholders = ICUArguments.names(issue.sourceValue);
     let fixedValue = issue.targetValue;
 
-    const targetPlaceholders = this.extractPlaceholders(issue.targetValue);
+    const targetArguments = ICUArguments.extract(issue.targetValue);
+    const targetPlaceholders = Array.from(new Set(targetArguments.map(arg => arg.name)));
     const placeholderMap = new Map<string, string>();
 
     for (let i = 0; i < Math.min(sourcePlaceholders.length, targetPlaceholders.length); i++) {
@@ -117,8 +119,12 @@ export class Fixer {
       }
     }
 
-    for (const [oldPh, newPh] of placeholderMap) {
-      fixedValue = fixedValue.replace(new RegExp(`\\{${oldPh}\\}`, 'g'), `{${newPh}}`);
+    // Renamed at each argument's position, from the end so earlier offsets stay valid
+    for (const arg of [...targetArguments].reverse()) {
+      const newPh = placeholderMap.get(arg.name);
+      if (!newPh) continue;
+      const start = fixedValue.indexOf(arg.name, arg.offset);
+      fixedValue = fixedValue.slice(0, start) + newPh + fixedValue.slice(start + arg.name.length);
     }
 
     return {
@@ -230,16 +236,4 @@ export class Fixer {
 
     targetFile.entries = reordered;
   }
-
-  private extractPlaceholders(value: string): string[] {
-    const placeholderRegex = /\{([^}]+)\}/g;
-    const placeholders: string[] = [];
-    let match;
-
-    while ((match = placeholderRegex.exec(value)) !== null) {
-      placeholders.push(match[1]);
-    }
-
-    return placeholders;
-  }
 }
\ No newline at end of file
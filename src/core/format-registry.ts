@@ -0,0 +1,86 @@
+import * as path from 'path';
+import { FormatAdapter, FormatName } from '../types';
+import { BUILTIN_FORMATS } from './formats/builtin';
+
+const REQUIRED_FUNCTIONS = ['detect', 'parse', 'serialize'] as const;
+
+export class FormatRegistry {
+  private static adapters: FormatAdapter[] = [...BUILTIN_FORMATS];
+
+  // An adapter with the name of an existing one replaces it. New adapters are
+  // asked first when detecting a file's format, so a custom format can claim
+  // files a built-in one would otherwise read (e.g. *.messages.json).
+  static register(adapter: FormatAdapter): void {
+    this.validate(adapter, 'register()');
+    this.insert(adapter);
+  }
+
+  static get(name: FormatName): FormatAdapter {
+    const adapter = this.find(name);
+    if (!adapter) {
+      throw new Error(`Unsupported file format: ${name}`);
+    }
+    return adapter;
+  }
+
+  static has(name: FormatName): boolean {
+    return this.find(name) !== undefined;
+  }
+
+  static detect(filePath: string): FormatAdapter | undefined {
+    return this.adapters.find(adapter => adapter.detect(filePath));
+  }
+
+  static all(): FormatAdapter[] {
+    return [...this.adapters];
+  }
+
+  static patterns(format: FormatName | 'auto'): string[] {
+    if (format === 'auto') {
+      return Array.from(new Set(this.adapters.flatMap(adapter => adapter.patterns)));
+    }
+    return this.get(format).patterns;
+  }
+
+  // Loads a module listed in config.formats. It may export an adapter as its
+  // default export, as `adapter`, or several of them as `adapters`.
+  static async load(modulePath: string, baseDir: string): Promise<FormatAdapter[]> {
+    const resolved = require.resolve(modulePath, { paths: [baseDir] });
+    const loaded = await import(resolved);
+    const exported = loaded.adapters ?? loaded.adapter ?? loaded.default?.adapters ?? loaded.default?.adapter ?? loaded.default ?? loaded;
+    const adapters: FormatAdapter[] = Array.isArray(exported) ? exported : [exported];
+
+    for (const adapter of adapters) {
+      this.validate(adapter, path.relative(baseDir, resolved) || modulePath);
+      this.insert(adapter);
+    }
+    return adapters;
+  }
+
+  private static find(name: FormatName): FormatAdapter | undefined {
+    return this.adapters.find(adapter => adapter.name === name || adapter.aliases?.includes(name));
+  }
+
+  private static insert(adapter: FormatAdapter): void {
+    const index = this.adapters.findIndex(existing => existing.name === adapter.name);
+    if (index !== -1) {
+      this.adapters[index] = adapter;
+    } else {
+      this.adapters.unshift(adapter);
+    }
+  }
+
+  private static validate(adapter: FormatAdapter, source: string): void {
+    if (!adapter || typeof adapter !== 'object' || typeof adapter.name !== 'string' || adapter.name === '') {
+      throw new Error(`Invalid format adapter in ${source}: missing name`);
+    }
+    if (!Array.isArray(adapter.patterns) || typeof adapter.extension !== 'string') {
+      throw new Error(`Invalid format adapter '${adapter.name}' in ${source}: patterns and extension are required`);
+    }
+    for (const fn of REQUIRED_FUNCTIONS) {
+      if (typeof adapter[fn] !== 'function') {
+        throw new Error(`Invalid format adapter '${adapter.name}' in ${source}: missing ${fn}()`);
+      }
+    }
+  }
+}
@@ -0,0 +1,107 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { describe, expect, it } from 'vitest';
+import { AndroidStringsFormat } from './android-strings';
+import { LocaleFile } from '../../types';
+
+const xml = `<?xml version="1.0" encoding="utf-8"?>
+<resources xmlns:tools="http://schemas.android.com/tools">
+    <!-- Greeting on the home screen -->
+    <string name="hello">Hello, %1$s!</string>
+    <string name="quote">It\\'s \\"quoted\\"</string>
+    <string name="bold">Tap <b>Save</b></string>
+    <string name="api_key" translatable="false">abc123</string>
+    <plurals name="files">
+        <item quantity="one">%d file</item>
+        <item quantity="other">%d files</item>
+    </plurals>
+    <string-array name="planets">
+        <item>Mercury</item>
+        <item>Venus</item>
+    </string-array>
+</resources>
+`;
+
+function localeFile(content: string): LocaleFile {
+  const { entries, raw } = AndroidStringsFormat.parse(content);
+  return { locale: 'en', path: 'values/strings.xml', format: 'xml', entries, raw };
+}
+
+describe('AndroidStringsFormat', () => {
+  it('parses strings, plurals, arrays, comments and translatable', () => {
+    const { entries } = localeFile(xml);
+    expect(entries.hello.value).toBe('Hello, %1$s!');
+    expect(entries.hello.description).toBe('Greeting on the home screen');
+    expect(entries.quote.value).toBe('It\'s "quoted"');
+    expect(entries.bold.value).toBe('Tap <b>Save</b>');
+    expect(entries.api_key.metadata?.translatable).toBe(false);
+    expect(entries.files.value).toBe('{count, plural, one{%d file} other{%d files}}');
+    expect(entries['planets[1]'].value).toBe('Venus');
+  });
+
+  it('round-trips a file unchanged', () => {
+    expect(AndroidStringsFormat.serialize(localeFile(xml))).toBe(xml);
+  });
+
+  it('keeps CDATA sections as CDATA', () => {
+    const content = '<resources>\n    <string name="x"><![CDATA[<b>x</b> & more]]></string>\n</resources>\n';
+    const file = localeFile(content);
+    expect(file.entries.x.value).toBe('<b>x</b> & more');
+    expect(AndroidStringsFormat.serialize(file)).toContain('<string name="x"><![CDATA[<b>x</b> & more]]></string>');
+  });
+
+  it('keeps escaped markup escaped', () => {
+    const content = '<resources>\n    <string name="x">Hello &lt;b&gt;World&lt;/b&gt;</string>\n</resources>\n';
+    const file = localeFile(content);
+    expect(file.entries.x.value).toBe('Hello <b>World</b>');
+    expect(AndroidStringsFormat.serialize(file)).toContain('<string name="x">Hello &lt;b&gt;World&lt;/b&gt;</string>');
+  });
+
+  it('reads locales from resource folders', () => {
+    expect(AndroidStringsFormat.extractLocale('res/values/strings.xml', 'en')).toBe('en');
+    expect(AndroidStringsFormat.extractLocale('res/values-es/strings.xml', 'en')).toBe('es');
+    expect(AndroidStringsFormat.extractLocale('res/values-pt-rBR/strings.xml', 'en')).toBe('pt_BR');
+    expect(AndroidStringsFormat.extractLocale('res/values-b+sr+Latn/strings.xml', 'en')).toBe('sr_Latn');
+    expect(AndroidStringsFormat.extractLocale('res/values-fil/strings.xml', 'en')).toBe('fil');
+    expect(AndroidStringsFormat.extractLocale('res/values-car/strings.xml', 'en')).toBeNull();
+    expect(AndroidStringsFormat.extractLocale('res/values-night/strings.xml', 'en')).toBeNull();
+    expect(AndroidStringsFormat.extractLocale('res/values-xx/strings.xml', 'en')).toBeNull();
+  });
+
+  it('maps locales back to resource folders', () => {
+    expect(AndroidStringsFormat.resourceFolder('en', 'en')).toBe('values');
+    expect(AndroidStringsFormat.resourceFolder('pt_BR', 'en')).toBe('values-pt-rBR');
+    expect(AndroidStringsFormat.resourceFolder('sr_Latn', 'en')).toBe('values-b+sr+Latn');
+  });
+
+  it('writes only the quantities the locale selects', () => {
+    const file = localeFile(xml);
+    file.entries.files.value = '{count, plural, =0{No files} zero{Zero files} one{%d file} other{%d files}}';
+    const en = AndroidStringsFormat.serialize(file);
+    expect(en).not.toContain('No files');
+    expect(en).not.toContain('quantity="zero"');
+    expect(en).toContain('<item quantity="one">%d file</item>\n        <item quantity="other">%d files</item>');
+
+    file.locale = 'ar';
+    expect(AndroidStringsFormat.serialize(file)).toContain('<item quantity="zero">Zero files</item>');
+  });
+
+  it('only claims resource XML', () => {
+    const directory = mkdtempSync(path.join(os.tmpdir(), 'android-'));
+    try {
+      const write = (name: string, content: string) => {
+        writeFileSync(path.join(directory, name), content);
+        return path.join(directory, name);
+      };
+      expect(AndroidStringsFormat.isResourceFile('app/src/main/res/values-de/strings.xml')).toBe(true);
+      expect(AndroidStringsFormat.isResourceFile(write('strings.xml', xml))).toBe(true);
+      expect(AndroidStringsFormat.isResourceFile(write('errors.xml', '<!-- errors -->\n<resources>\n</resources>\n'))).toBe(true);
+      expect(AndroidStringsFormat.isResourceFile(write('activity_main.xml', '<?xml version="1.0"?>\n<LinearLayout/>\n'))).toBe(false);
+      expect(AndroidStringsFormat.isResourceFile(write('AndroidManifest.xml', '<manifest package="app"/>'))).toBe(false);
+      expect(AndroidStringsFormat.isResourceFile(path.join(directory, 'new.xml'))).toBe(true);
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,379 @@
+import { readFileSync } from 'fs';
+import * as path from 'path';
+import { XMLParser } from 'fast-xml-parser';
+import { LocaleEntry, LocaleFile } from '../../types';
+import { ICUPlural, PLURAL_CATEGORIES } from '../../utils/icu-plural';
+import { LocaleTag } from '../../utils/locale-tag';
+
+type XmlAttributes = Record<string, string>;
+
+// fast-xml-parser's ordered output: one tag per node, attributes under `:@`
+interface XmlNode {
+  ':@'?: XmlAttributes;
+  '#text'?: string;
+  [tag: string]: XmlNode[] | XmlAttributes | string | undefined;
+}
+
+const INDENT = '    ';
+const ARRAY_ITEM_KEY = /^(.+)\[(\d+)\]$/;
+const CDATA = /(<!\[CDATA\[[\s\S]*?\]\]>)/;
+// Markup written as text (&lt;b>), usually for Html.fromHtml
+const ESCAPED_MARKUP = /&lt;\/?[a-zA-Z]/;
+
+// An XML declaration, comments and whitespace, then <resources>
+const RESOURCES_ROOT = /^(?:\s|<\?xml[^>]*\?>|<!--[\s\S]*?-->)*<resources[\s>/]/;
+
+// Resource qualifiers that would otherwise pass for ISO 639 language codes
+const NON_LOCALE_QUALIFIERS = new Set(['car', 'hdr']);
+
+// How a value was written, so serialize can write it back the same way
+interface TextStyle {
+  cdata?: boolean;
+  escapedMarkup?: boolean;
+}
+
+export class AndroidStringsFormat {
+  static readonly PLURAL_ARGUMENT = 'count';
+
+  static parse(content: string): { entries: Record<string, LocaleEntry>; raw: Record<string, unknown> } {
+    const parser = new XMLParser({
+      preserveOrder: true,
+      ignoreAttributes: false,
+      attributeNamePrefix: '',
+      commentPropName: '#comment',
+      stopNodes: ['*.string', '*.item'],
+      parseTagValue: false,
+      parseAttributeValue: false,
+      trimValues: false,
+      processEntities: false
+    });
+
+    const document: XmlNode[] = parser.parse(content);
+    const resourcesNode = document.find(node => node.resources !== undefined);
+    if (!resourcesNode) {
+      throw new Error('Invalid Android resource file: missing <resources> root');
+    }
+
+    const entries: Record<string, LocaleEntry> = {};
+    let pendingComment: string | undefined;
+
+    for (const node of this.children(resourcesNode, 'resources')) {
+      if (node['#comment'] !== undefined) {
+        pendingComment = this.textOf(this.children(node, '#comment')).trim();
+        continue;
+      }
+      if (node['#text'] !== undefined) continue;
+
+      const { name, translatable, ...attributes } = node[':@'] || {};
+      if (!name) {
+        pendingComment = undefined;
+        continue;
+      }
+
+      const metadata: Record<string, unknown> = {};
+      if (translatable === 'false') metadata.translatable = false;
+      if (Object.keys(attributes).length > 0) metadata.attributes = attributes;
+
+      if (node.string !== undefined) {
+        const text = this.textOf(this.children(node, 'string'));
+        entries[name] = {
+          key: name,
+          value: this.unescape(text),
+          description: pendingComment,
+          metadata: { type: 'string', ...metadata, ...this.textStyle([text]) }
+        };
+      } else if (node.plurals !== undefined) {
+        const forms: Record<string, string> = {};
+        const texts: string[] = [];
+        for (const item of this.children(node, 'plurals')) {
+          if (item.item === undefined) continue;
+          const quantity = item[':@']?.quantity;
+          if (!quantity) continue;
+          texts.push(this.textOf(this.children(item, 'item')));
+          forms[quantity] = this.unescape(texts[texts.length - 1]);
+        }
+
+        entries[name] = {
+          key: name,
+          value: ICUPlural.build(this.PLURAL_ARGUMENT, forms),
+          description: pendingComment,
+          metadata: { type: 'plurals', ...metadata, ...this.textStyle(texts) }
+        };
+      } else if (node['string-array'] !== undefined) {
+        const items = this.children(node, 'string-array').filter(item => item.item !== undefined);
+        items.forEach((item, index) => {
+          const key = `${name}[${index}]`;
+          const text = this.textOf(this.children(item, 'item'));
+          entries[key] = {
+            key,
+            value: this.unescape(text),
+            description: index === 0 ? pendingComment : undefined,
+            metadata: { type: 'string-array', array: name, index, ...metadata, ...this.textStyle([text]) }
+          };
+        });
+      }
+
+      pendingComment = undefined;
+    }
+
+    return {
+      entries,
+      raw: { resources: resourcesNode[':@'] || {} }
+    };
+  }
+
+  static serialize(localeFile: LocaleFile): string {
+    const quantities = this.quantities(localeFile.locale);
+    const rootAttributes = this.formatAttributes(localeFile.raw?.resources || {});
+    const lines = ['<?xml version="1.0" encoding="utf-8"?>', `<resources${rootAttributes}>`];
+    const entries = Object.values(localeFile.entries);
+    const writtenArrays = new Set<string>();
+
+    for (const entry of entries) {
+      const metadata = entry.metadata || {};
+      const arrayMatch = entry.key.match(ARRAY_ITEM_KEY);
+
+      if (metadata.type === 'string-array' || (arrayMatch && metadata.type === undefined)) {
+        const arrayName = metadata.array || arrayMatch![1];
+        if (writtenArrays.has(arrayName)) continue;
+        writtenArrays.add(arrayName);
+
+        const items = entries
+          .filter(e => (e.metadata?.array || e.key.match(ARRAY_ITEM_KEY)?.[1]) === arrayName)
+          .sort((a, b) => this.arrayIndex(a) - this.arrayIndex(b));
+
+        this.pushComment(lines, items[0].description);
+        lines.push(`${INDENT}<string-array name="${arrayName}"${this.entryAttributes(metadata)}>`);
+        for (const item of items) {
+          lines.push(`${INDENT}${INDENT}<item>${this.escape(item.value, item.metadata)}</item>`);
+        }
+        lines.push(`${INDENT}</string-array>`);
+        continue;
+      }
+
+      this.pushComment(lines, entry.description);
+
+      const plural = metadata.type === 'plurals' ? ICUPlural.parse(entry.value) : null;
+      if (plural) {
+        lines.push(`${INDENT}<plurals name="${entry.key}"${this.entryAttributes(metadata)}>`);
+        for (const [selector, body] of Object.entries(plural.forms)) {
+          if (!quantities.includes(selector)) continue;
+          lines.push(`${INDENT}${INDENT}<item quantity="${selector}">${this.escape(body, metadata)}</item>`);
+        }
+        lines.push(`${INDENT}</plurals>`);
+      } else {
+        lines.push(`${INDENT}<string name="${entry.key}"${this.entryAttributes(metadata)}>${this.escape(entry.value, metadata)}</string>`);
+      }
+    }
+
+    lines.push('</resources>');
+    return lines.join('\n') + '\n';
+  }
+
+  // Android resource XML lives in a values*/ folder; elsewhere only a file
+  // with a <resources> root counts, so layouts and manifests are left alone.
+  // A file that does not exist yet is about to be written as strings.xml.
+  static isResourceFile(filePath: string): boolean {
+    if (/^values(-|$)/.test(path.basename(path.dirname(filePath)))) return true;
+
+    let head: string;
+    try {
+      head = readFileSync(filePath, 'utf-8').slice(0, 4096);
+    } catch (error) {
+      return (error as NodeJS.ErrnoException).code === 'ENOENT';
+    }
+    return RESOURCES_ROOT.test(head.replace(/^\uFEFF/, ''));
+  }
+
+  // values → default locale, values-es → es, values-es-rMX → es_MX,
+  // values-b+sr+Latn → sr_Latn. Non-locale qualifiers (night, v21, ...) are ignored.
+  static extractLocale(filePath: string, defaultLocale: string): string | null {
+    const folder = path.basename(path.dirname(filePath));
+    if (folder === 'values') return defaultLocale;
+
+    const bcp47 = folder.match(/^values-b\+([a-zA-Z0-9+]+)/);
+    if (bcp47) {
+      return LocaleTag.canonicalize(bcp47[1].split('+').join('_'));
+    }
+
+    const qualifiers = folder.match(/^values-([a-z]{2,3})(?:-r([A-Z]{2}))?(?:-|$)/);
+    if (qualifiers && !NON_LOCALE_QUALIFIERS.has(qualifiers[1]) && LocaleTag.isKnown(qualifiers[1])) {
+      return qualifiers[2] ? `${qualifiers[1]}_${qualifiers[2]}` : qualifiers[1];
+    }
+
+    return null;
+  }
+
+  // Inverse of extractLocale: es → values-es, pt_BR → values-pt-rBR, sr_Latn → values-b+sr+Latn
+  static resourceFolder(locale: string, defaultLocale: string): string {
+    if (LocaleTag.equals(locale, defaultLocale)) return 'values';
+
+    const parts = LocaleTag.parse(locale);
+    if (!parts) return `values-${locale}`;
+    if (parts.script || parts.variants.length > 0 || /^\d/.test(parts.region || '')) {
+      return `values-b+${LocaleTag.toBCP47(locale).split('-').join('+')}`;
+    }
+    return parts.region ? `values-${parts.language}-r${parts.region}` : `values-${parts.language}`;
+  }
+
+  static unescape(raw: string): string {
+    const decoded = this.decodeEntities(raw);
+    let result = '';
+    let quoted = false;
+    let pendingSpace = false;
+
+    for (let i = 0; i < decoded.length; i++) {
+      const char = decoded[i];
+
+      if (char === '\\' && i + 1 < decoded.length) {
+        if (pendingSpace) {
+          result += ' ';
+          pendingSpace = false;
+        }
+        const next = decoded[++i];
+        switch (next) {
+          case 'n':
+            result += '\n';
+            break;
+          case 't':
+            result += '\t';
+            break;
+          case 'u':
+            result += String.fromCharCode(parseInt(decoded.slice(i + 1, i + 5), 16));
+            i += 4;
+            break;
+          default:
+            result += next;
+        }
+        continue;
+      }
+
+      // Inline markup such as <b> or <a href="..."> is copied verbatim
+      const tag = char === '<' ? decoded.slice(i).match(/^<\/?[a-zA-Z][^<>]*>/) : null;
+      if (tag) {
+        if (pendingSpace) {
+          result += ' ';
+          pendingSpace = false;
+        }
+        result += tag[0];
+        i += tag[0].length - 1;
+        continue;
+      }
+
+      if (char === '"') {
+        quoted = !quoted;
+        continue;
+      }
+
+      if (!quoted && /\s/.test(char)) {
+        pendingSpace = result.length > 0;
+        continue;
+      }
+
+      if (pendingSpace) {
+        result += ' ';
+        pendingSpace = false;
+      }
+      result += char;
+    }
+
+    return result;
+  }
+
+  // Markup is written as markup unless the file had it escaped as text; CDATA
+  // values go back into a CDATA section, where nothing is entity-escaped
+  static escape(value: string, style: TextStyle = {}): string {
+    const escapeText = (text: string) => {
+      const android = text
+        .replace(/\\/g, '\\\\')
+        .replace(/\n/g, '\\n')
+        .replace(/\t/g, '\\t')
+        .replace(/'/g, "\\'")
+        .replace(/"/g, '\\"');
+      if (style.cdata) return android;
+      const xml = android.replace(/&/g, '&amp;').replace(/</g, '&lt;');
+      return style.escapedMarkup ? xml.replace(/>/g, '&gt;') : xml;
+    };
+
+    let escaped = (style.cdata || style.escapedMarkup ? [value] : value.split(/(<\/?[a-zA-Z][^<>]*>)/))
+      .map((segment, index) => index % 2 === 1 ? segment : escapeText(segment))
+      .join('')
+      .replace(/^([@?])/, '\\$1');
+
+    // Whitespace that Android would otherwise collapse has to be quoted
+    if (/^\s|\s$|\s{2}/.test(value)) {
+      escaped = `"${escaped}"`;
+    }
+
+    return style.cdata ? `<![CDATA[${escaped.split(']]>').join(']]]]><![CDATA[>')}]]>` : escaped;
+  }
+
+  // CDATA sections are taken as written; entities are decoded everywhere else
+  private static decodeEntities(text: string): string {
+    return text
+      .split(CDATA)
+      .map((segment, index) => index % 2 === 1 ? segment.slice(9, -3) : this.decodeEntitySegment(segment))
+      .join('');
+  }
+
+  private static decodeEntitySegment(text: string): string {
+    return text
+      .replace(/&#x([0-9a-fA-F]+);/g, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+      .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/&amp;/g, '&');
+  }
+
+  private static textStyle(texts: string[]): TextStyle {
+    const style: TextStyle = {};
+    if (texts.some(text => CDATA.test(text))) style.cdata = true;
+    if (texts.some(text => ESCAPED_MARKUP.test(text.split(CDATA).filter((_, index) => index % 2 === 0).join('')))) {
+      style.escapedMarkup = true;
+    }
+    return style;
+  }
+
+  private static children(node: XmlNode, tag: string): XmlNode[] {
+    const children = node[tag];
+    return Array.isArray(children) ? children : [];
+  }
+
+  private static textOf(children: XmlNode[]): string {
+    return children.map(child => child['#text'] ?? '').join('');
+  }
+
+  private static arrayIndex(entry: LocaleEntry): number {
+    if (typeof entry.metadata?.index === 'number') return entry.metadata.index;
+    const match = entry.key.match(ARRAY_ITEM_KEY);
+    return match ? parseInt(match[2], 10) : 0;
+  }
+
+  // Android only picks the quantities the locale's plural rules select, so
+  // `zero` in English or an exact `=0` case would never be shown
+  private static quantities(locale: string): string[] {
+    const categories = ICUPlural.categories(locale);
+    return categories ? Array.from(categories.keys()) : [...PLURAL_CATEGORIES];
+  }
+
+  private static entryAttributes(metadata: Record<string, unknown>): string {
+    const attributes: Record<string, string> = {};
+    if (metadata.translatable === false) attributes.translatable = 'false';
+    Object.assign(attributes, metadata.attributes || {});
+    return this.formatAttributes(attributes);
+  }
+
+  private static formatAttributes(attributes: Record<string, string>): string {
+    return Object.entries(attributes)
+      .map(([name, value]) => ` ${name}="${String(value).replace(/&/g, '&amp;').replace(/"/g, '&quot;')}"`)
+      .join('');
+  }
+
+  private static pushComment(lines: string[], description?: string): void {
+    if (description) {
+      lines.push(`${INDENT}<!-- ${description.replace(/--/g, '- -')} -->`);
+    }
+  }
+}
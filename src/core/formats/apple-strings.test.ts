@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { AppleStringsFormat } from './apple-strings';
+import { LocaleFile } from '../../types';
+
+const strings = `/* Title of the settings screen */
+"settings.title" = "Settings";
+
+"greeting" = "Hello, %@!\\nWelcome \\"back\\"";
+`;
+
+describe('AppleStringsFormat', () => {
+  it('parses keys, escapes and comments', () => {
+    const { entries } = AppleStringsFormat.parse(strings);
+    expect(entries['settings.title']).toEqual({ key: 'settings.title', value: 'Settings', description: 'Title of the settings screen' });
+    expect(entries.greeting.value).toBe('Hello, %@!\nWelcome "back"');
+  });
+
+  it('round-trips a file unchanged', () => {
+    const { entries, raw } = AppleStringsFormat.parse(strings);
+    const file: LocaleFile = { locale: 'en', path: 'en.lproj/Localizable.strings', format: 'strings', entries, raw };
+    expect(AppleStringsFormat.serialize(file)).toBe(strings);
+  });
+
+  it('reads locales from .lproj folders', () => {
+    expect(AppleStringsFormat.extractLocale('pt-BR.lproj/Localizable.strings', 'en')).toBe('pt_BR');
+    expect(AppleStringsFormat.extractLocale('zh-Hans.lproj/Localizable.strings', 'en')).toBe('zh_Hans');
+    expect(AppleStringsFormat.extractLocale('Base.lproj/Localizable.strings', 'en')).toBe('en');
+  });
+
+  it('rejects unterminated strings', () => {
+    expect(() => AppleStringsFormat.parse('"a" = "b;')).toThrow(/Unterminated/);
+  });
+});
@@ -0,0 +1,124 @@
+import * as path from 'path';
+import { LocaleEntry, LocaleFile } from '../../types';
+import { LocaleTag } from '../../utils/locale-tag';
+
+export class AppleStringsFormat {
+  static parse(content: string): { entries: Record<string, LocaleEntry>; raw: Record<string, unknown> } {
+    const entries: Record<string, LocaleEntry> = {};
+    const text = content.replace(/^\uFEFF/, '');
+    let pendingComment: string | undefined;
+    let i = 0;
+
+    const skipWhitespace = () => {
+      while (i < text.length && /\s/.test(text[i])) i++;
+    };
+
+    const readString = (): string => {
+      if (text[i] !== '"') {
+        const bare = text.slice(i).match(/^[^\s=;"]+/);
+        if (!bare) throw new Error(`Invalid .strings syntax at offset ${i}`);
+        i += bare[0].length;
+        return bare[0];
+      }
+
+      const start = ++i;
+      while (i < text.length && text[i] !== '"') {
+        if (text[i] === '\\') i++;
+        i++;
+      }
+      if (i >= text.length) throw new Error(`Unterminated string at offset ${start - 1}`);
+      return this.unescape(text.slice(start, i++));
+    };
+
+    const expect = (char: string) => {
+      skipWhitespace();
+      if (text[i] !== char) throw new Error(`Expected "${char}" at offset ${i} in .strings file`);
+      i++;
+    };
+
+    skipWhitespace();
+    while (i < text.length) {
+      if (text.startsWith('/*', i)) {
+        const end = text.indexOf('*/', i + 2);
+        if (end === -1) throw new Error(`Unterminated comment at offset ${i}`);
+        pendingComment = text.slice(i + 2, end).trim();
+        i = end + 2;
+        skipWhitespace();
+        continue;
+      }
+
+      if (text.startsWith('//', i)) {
+        const end = text.indexOf('\n', i);
+        pendingComment = text.slice(i + 2, end === -1 ? text.length : end).trim();
+        i = end === -1 ? text.length : end + 1;
+        skipWhitespace();
+        continue;
+      }
+
+      const key = readString();
+      expect('=');
+      skipWhitespace();
+      const value = readString();
+      expect(';');
+
+      entries[key] = {
+        key,
+        value,
+        ...(pendingComment && { description: pendingComment })
+      };
+      pendingComment = undefined;
+      skipWhitespace();
+    }
+
+    return { entries, raw: {} };
+  }
+
+  static serialize(localeFile: LocaleFile): string {
+    const blocks = Object.values(localeFile.entries).map(entry => {
+      const lines: string[] = [];
+      if (entry.description) {
+        lines.push(`/* ${entry.description.replace(/\*\//g, '* /')} */`);
+      }
+      lines.push(`"${this.escape(entry.key)}" = "${this.escape(entry.value)}";`);
+      return lines.join('\n');
+    });
+
+    return blocks.join('\n\n') + '\n';
+  }
+
+  // en.lproj → en, pt-BR.lproj → pt_BR, zh-Hans.lproj → zh_Hans, Base.lproj → default locale
+  static extractLocale(filePath: string, defaultLocale: string): string | null {
+    const folder = path.basename(path.dirname(filePath));
+    const match = folder.match(/^(.+)\.lproj$/);
+    if (!match) return null;
+    if (match[1] === 'Base') return defaultLocale;
+    return LocaleTag.canonicalize(match[1]);
+  }
+
+  static unescape(value: string): string {
+    return value.replace(/\\(U[0-9a-fA-F]{4}|u[0-9a-fA-F]{4}|.)/gs, (_, sequence: string) => {
+      switch (sequence[0]) {
+        case 'n':
+          return '\n';
+        case 't':
+          return '\t';
+        case 'r':
+          return '\r';
+        case 'U':
+        case 'u':
+          return sequence.length === 5 ? String.fromCharCode(parseInt(sequence.slice(1), 16)) : sequence;
+        default:
+          return sequence;
+      }
+    });
+  }
+
+  static escape(value: string): string {
+    return value
+      .replace(/\\/g, '\\\\')
+      .replace(/"/g, '\\"')
+      .replace(/\n/g, '\\n')
+      .replace(/\t/g, '\\t')
+      .replace(/\r/g, '\\r');
+  }
+}
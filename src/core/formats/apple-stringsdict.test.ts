@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { StringsDictFormat } from './apple-stringsdict';
+import { LocaleFile } from '../../types';
+
+const stringsdict = `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">
+<plist version="1.0">
+<dict>
+  <key>files</key>
+  <dict>
+    <key>NSStringLocalizedFormatKey</key>
+    <string>%#@count@ in folder</string>
+    <key>count</key>
+    <dict>
+      <key>NSStringFormatSpecTypeKey</key>
+      <string>NSStringPluralRuleType</string>
+      <key>NSStringFormatValueTypeKey</key>
+      <string>d</string>
+      <key>one</key>
+      <string>%d file</string>
+      <key>other</key>
+      <string>%d files</string>
+    </dict>
+  </dict>
+</dict>
+</plist>
+`;
+
+function localeFile(content: string): LocaleFile {
+  const { entries, raw } = StringsDictFormat.parse(content);
+  return { locale: 'en', path: 'en.lproj/Localizable.stringsdict', format: 'stringsdict', entries, raw };
+}
+
+describe('StringsDictFormat', () => {
+  it('reads plural rules as ICU plurals', () => {
+    expect(localeFile(stringsdict).entries.files.value).toBe('{count, plural, one{%d file} other{%d files}} in folder');
+  });
+
+  it('round-trips entries through serialize', () => {
+    const file = localeFile(stringsdict);
+    const reparsed = localeFile(StringsDictFormat.serialize(file));
+    expect(reparsed.entries).toEqual(file.entries);
+  });
+
+  it('writes plural cases a translation adds', () => {
+    const file = localeFile(stringsdict);
+    file.entries.files.value = '{count, plural, one{%d plik} few{%d pliki} many{%d plików} other{%d pliku}} w folderze';
+    expect(localeFile(StringsDictFormat.serialize(file)).entries.files.value).toBe(file.entries.files.value);
+  });
+});
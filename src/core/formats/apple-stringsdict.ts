@@ -0,0 +1,191 @@
+import { XMLParser } from 'fast-xml-parser';
+import { LocaleEntry, LocaleFile } from '../../types';
+import { ICUPlural, PLURAL_CATEGORIES } from '../../utils/icu-plural';
+
+// fast-xml-parser's ordered output: one tag per node
+interface XmlNode {
+  '#text'?: string;
+  [tag: string]: XmlNode[] | string | undefined;
+}
+
+type PlistValue = string | number | boolean | PlistValue[] | { [key: string]: PlistValue };
+
+interface PluralVariable {
+  valueType?: PlistValue;
+  raw?: PlistValue;
+}
+
+const FORMAT_KEY = 'NSStringLocalizedFormatKey';
+const SPEC_TYPE_KEY = 'NSStringFormatSpecTypeKey';
+const VALUE_TYPE_KEY = 'NSStringFormatValueTypeKey';
+const PLURAL_RULE_TYPE = 'NSStringPluralRuleType';
+
+export class StringsDictFormat {
+  static parse(content: string): { entries: Record<string, LocaleEntry>; raw: Record<string, unknown> } {
+    const parser = new XMLParser({
+      preserveOrder: true,
+      ignoreAttributes: true,
+      parseTagValue: false,
+      trimValues: false
+    });
+
+    const document: XmlNode[] = parser.parse(content);
+    const plist = document.find(node => node.plist !== undefined);
+    const rootNode = plist && this.elements(this.children(plist, 'plist'))[0];
+    const root = rootNode ? this.readValue(rootNode) : undefined;
+
+    if (!root || typeof root !== 'object' || Array.isArray(root)) {
+      throw new Error('Invalid .stringsdict file: expected a top-level <dict>');
+    }
+
+    const entries: Record<string, LocaleEntry> = {};
+
+    for (const [key, definition] of Object.entries(root)) {
+      if (!definition || typeof definition !== 'object' || Array.isArray(definition)) continue;
+
+      const formatKey = String(definition[FORMAT_KEY] ?? '');
+      const variables: Record<string, PluralVariable> = {};
+
+      const value = formatKey.replace(/%#@([^@]+)@/g, (match, name: string) => {
+        const variable = definition[name];
+        if (!variable || typeof variable !== 'object' || Array.isArray(variable)) return match;
+
+        if (variable[SPEC_TYPE_KEY] !== PLURAL_RULE_TYPE) {
+          // Device-specific and other rule types are carried through untouched
+          variables[name] = { raw: variable };
+          return match;
+        }
+
+        const forms: Record<string, string> = {};
+        for (const category of PLURAL_CATEGORIES) {
+          if (variable[category] !== undefined) forms[category] = String(variable[category]);
+        }
+
+        variables[name] = { valueType: variable[VALUE_TYPE_KEY] };
+        return ICUPlural.build(name, forms);
+      });
+
+      entries[key] = {
+        key,
+        value,
+        metadata: { variables }
+      };
+    }
+
+    return { entries, raw: {} };
+  }
+
+  static serialize(localeFile: LocaleFile): string {
+    const root: Record<string, PlistValue> = {};
+
+    for (const entry of Object.values(localeFile.entries)) {
+      const variables: Record<string, PluralVariable> = entry.metadata?.variables || {};
+      const definition: Record<string, PlistValue> = {};
+      let formatKey = '';
+
+      for (const segment of ICUPlural.split(entry.value)) {
+        if (typeof segment === 'string') {
+          formatKey += segment;
+          continue;
+        }
+
+        formatKey += `%#@${segment.argument}@`;
+        const variable: Record<string, PlistValue> = {
+          [SPEC_TYPE_KEY]: PLURAL_RULE_TYPE,
+          [VALUE_TYPE_KEY]: variables[segment.argument]?.valueType || 'd'
+        };
+        for (const [selector, body] of Object.entries(segment.forms)) {
+          if ((PLURAL_CATEGORIES as readonly string[]).includes(selector)) {
+            variable[selector] = body;
+          }
+        }
+        definition[segment.argument] = variable;
+      }
+
+      for (const [name, variable] of Object.entries(variables)) {
+        if (variable.raw && formatKey.includes(`%#@${name}@`)) {
+          definition[name] = variable.raw;
+        }
+      }
+
+      root[entry.key] = { [FORMAT_KEY]: formatKey, ...definition };
+    }
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">',
+      '<plist version="1.0">',
+      this.writeValue(root, 0),
+      '</plist>'
+    ].join('\n') + '\n';
+  }
+
+  private static elements(children: XmlNode[]): XmlNode[] {
+    return children.filter(child => child['#text'] === undefined && child['#comment'] === undefined);
+  }
+
+  private static children(node: XmlNode, tag: string): XmlNode[] {
+    const children = node[tag];
+    return Array.isArray(children) ? children : [];
+  }
+
+  private static textOf(children: XmlNode[]): string {
+    return children.map(child => child['#text'] ?? '').join('');
+  }
+
+  private static readValue(node: XmlNode): PlistValue {
+    const [tag] = Object.keys(node).filter(name => name !== ':@');
+    const children = this.children(node, tag);
+
+    switch (tag) {
+      case 'dict': {
+        const dict: Record<string, PlistValue> = {};
+        const items = this.elements(children);
+        for (let i = 0; i + 1 < items.length; i += 2) {
+          dict[this.textOf(this.children(items[i], 'key'))] = this.readValue(items[i + 1]);
+        }
+        return dict;
+      }
+      case 'array':
+        return this.elements(children).map(child => this.readValue(child));
+      case 'integer':
+      case 'real':
+        return Number(this.textOf(children));
+      case 'true':
+        return true;
+      case 'false':
+        return false;
+      default:
+        return this.textOf(children);
+    }
+  }
+
+  private static writeValue(value: PlistValue, depth: number): string {
+    const indent = '\t'.repeat(depth);
+
+    if (typeof value === 'boolean') return `${indent}<${value}/>`;
+    if (typeof value === 'number') {
+      return `${indent}<${Number.isInteger(value) ? 'integer' : 'real'}>${value}</${Number.isInteger(value) ? 'integer' : 'real'}>`;
+    }
+    if (typeof value === 'string') return `${indent}<string>${this.escapeXml(value)}</string>`;
+
+    if (Array.isArray(value)) {
+      return [`${indent}<array>`, ...value.map(item => this.writeValue(item, depth + 1)), `${indent}</array>`].join('\n');
+    }
+
+    const lines = [`${indent}<dict>`];
+    for (const [key, item] of Object.entries(value)) {
+      lines.push(`${indent}\t<key>${this.escapeXml(key)}</key>`);
+      lines.push(this.writeValue(item, depth + 1));
+    }
+    lines.push(`${indent}</dict>`);
+    return lines.join('\n');
+  }
+
+  private static escapeXml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+  }
+}
@@ -0,0 +1,199 @@
+import * as path from 'path';
+import { FormatAdapter, LocalzConfig } from '../../types';
+import { ARBParser } from '../arb-parser';
+import { JsonFormat } from './json';
+import { YamlFormat } from './yaml';
+import { CsvFormat } from './csv';
+import { AndroidStringsFormat } from './android-strings';
+import { AppleStringsFormat } from './apple-strings';
+import { StringsDictFormat } from './apple-stringsdict';
+import { StringCatalog, XCStringsFormat } from './xcstrings';
+import { GettextFormat } from './gettext';
+import { JavaPropertiesFormat } from './java-properties';
+import { ResxFormat } from './resx';
+import { FluentFormat } from './fluent';
+import { LocaleTag } from '../../utils/locale-tag';
+
+const hasExtension = (filePath: string, ...extensions: string[]): boolean =>
+  extensions.includes(path.extname(filePath).toLowerCase());
+
+const isConfiguredLocale = (locale: string, config: LocalzConfig): boolean =>
+  LocaleTag.find([config.sourceLocale, ...config.targetLocales], locale) !== undefined;
+
+// Other locales may already have been written to the same catalog, so merge into what is on disk
+function readCatalog(existing: string | null, raw: Record<string, unknown>, config: LocalzConfig): StringCatalog {
+  try {
+    if (existing !== null) return JSON.parse(existing);
+  } catch {
+    // Unreadable catalog; start again from the one that was parsed
+  }
+  return structuredClone(raw.catalog as StringCatalog | undefined) || {
+    sourceLanguage: LocaleTag.toBCP47(config.sourceLocale),
+    strings: {},
+    version: '1.0'
+  };
+}
+
+function gettextAdapter(name: 'po' | 'pot'): FormatAdapter {
+  return {
+    name,
+    extension: `.${name}`,
+    patterns: [`**/*.${name}`],
+    fields: ['description', 'context', 'tags'],
+    structuralMetadata: ['msgid', 'msgidPlural'],
+    pluralCases: 'locale',
+    detect: filePath => hasExtension(filePath, `.${name}`),
+    localeFromPath: (filePath, config) => GettextFormat.extractLocale(filePath, config.sourceLocale),
+    parse: (content, { locale, config }) => {
+      if (locale === 'unknown') locale = GettextFormat.headerLocale(content) || locale;
+      return { ...GettextFormat.parse(content, locale, name === 'pot' || locale === config.sourceLocale), locale };
+    },
+    serialize: localeFile => GettextFormat.serialize(localeFile, name === 'pot')
+  };
+}
+
+function csvAdapter(name: 'csv' | 'tsv'): FormatAdapter {
+  const delimiter = (config: LocalzConfig) => name === 'tsv' ? '\t' : (config.csvOptions?.delimiter || ',');
+  return {
+    name,
+    extension: `.${name}`,
+    patterns: [`**/*.${name}`],
+    fields: ['description', 'context', 'tags'],
+    structuralMetadata: 'all',
+    multiLocale: true,
+    detect: filePath => hasExtension(filePath, `.${name}`),
+    locales: (content, { config }) => CsvFormat.locales(content, delimiter(config), config),
+    parse: (content, { locale, config }) => CsvFormat.parse(content, locale, delimiter(config), config),
+    // Other locales may already have been written to the same table, so merge into what is on disk
+    serialize: (localeFile, existing, { config }) => CsvFormat.serialize(localeFile, existing, delimiter(config), config)
+  };
+}
+
+export const BUILTIN_FORMATS: FormatAdapter[] = [
+  {
+    name: 'arb',
+    extension: '.arb',
+    patterns: ['**/*.arb'],
+    fields: ['description', 'placeholders'],
+    structuralMetadata: ['description', 'placeholders'],
+    detect: filePath => hasExtension(filePath, '.arb'),
+    parse: (content, { locale, config }) => {
+      const { entries, raw } = JsonFormat.parse(content, 'arb', config);
+      // ARB files named without a locale (e.g. intl_messages.arb) declare it in @@locale
+      return { entries, raw, locale: locale === 'unknown' ? ARBParser.declaredLocale(raw) : undefined };
+    },
+    serialize: (localeFile, existing, { config }) => JsonFormat.serialize(localeFile, existing, config)
+  },
+  {
+    name: 'json',
+    extension: '.json',
+    patterns: ['**/*.json'],
+    detect: filePath => hasExtension(filePath, '.json'),
+    parse: (content, { config }) => JsonFormat.parse(content, 'json', config),
+    serialize: (localeFile, existing, { config }) => JsonFormat.serialize(localeFile, existing, config)
+  },
+  {
+    name: 'yaml',
+    aliases: ['yml'],
+    extension: '.yml',
+    patterns: ['**/*.yaml', '**/*.yml'],
+    fields: ['description', 'context', 'tags'],
+    structuralMetadata: ['value', 'description', 'context', 'tags'],
+    detect: filePath => hasExtension(filePath, '.yaml', '.yml'),
+    locales: (content, { config }) => YamlFormat.locales(content, config),
+    parse: (content, { locale, requested, config }) => YamlFormat.parse(content, locale, requested, config),
+    serialize: (localeFile, existing, { config }) => YamlFormat.serialize(localeFile, existing, config)
+  },
+  csvAdapter('csv'),
+  csvAdapter('tsv'),
+  {
+    name: 'xml',
+    extension: '.xml',
+    patterns: ['**/values*/strings.xml'],
+    fields: ['description', 'translatable'],
+    structuralMetadata: ['type', 'array', 'index', 'cdata', 'escapedMarkup'],
+    pluralCases: 'locale',
+    detect: filePath => hasExtension(filePath, '.xml') && AndroidStringsFormat.isResourceFile(filePath),
+    localeFromPath: (filePath, config) => AndroidStringsFormat.extractLocale(filePath, config.sourceLocale) || 'unknown',
+    parse: content => AndroidStringsFormat.parse(content),
+    serialize: localeFile => AndroidStringsFormat.serialize(localeFile)
+  },
+  {
+    name: 'strings',
+    extension: '.strings',
+    patterns: ['**/*.lproj/*.strings'],
+    fields: ['description'],
+    detect: filePath => hasExtension(filePath, '.strings'),
+    localeFromPath: (filePath, config) => AppleStringsFormat.extractLocale(filePath, config.sourceLocale) || 'unknown',
+    parse: content => AppleStringsFormat.parse(content),
+    serialize: localeFile => AppleStringsFormat.serialize(localeFile)
+  },
+  {
+    name: 'stringsdict',
+    extension: '.stringsdict',
+    patterns: ['**/*.lproj/*.stringsdict'],
+    structuralMetadata: ['variables'],
+    pluralCases: 'categories',
+    detect: filePath => hasExtension(filePath, '.stringsdict'),
+    localeFromPath: (filePath, config) => AppleStringsFormat.extractLocale(filePath, config.sourceLocale) || 'unknown',
+    parse: content => StringsDictFormat.parse(content),
+    serialize: localeFile => StringsDictFormat.serialize(localeFile)
+  },
+  {
+    name: 'xcstrings',
+    extension: '.xcstrings',
+    patterns: ['**/*.xcstrings'],
+    fields: ['description'],
+    multiLocale: true,
+    pluralCases: 'categories',
+    detect: filePath => hasExtension(filePath, '.xcstrings'),
+    locales: (content, { config }) => {
+      const catalog: StringCatalog = JSON.parse(content);
+      const candidates = new Set([
+        ...XCStringsFormat.locales(catalog).map(locale => XCStringsFormat.normalizeLocale(locale)),
+        ...config.targetLocales
+      ]);
+      // Configured targets without localizations yet get an empty view so they can be filled in
+      return Array.from(candidates).filter(locale => isConfiguredLocale(locale, config));
+    },
+    parse: (content, { locale, requested }) => {
+      const catalog: StringCatalog = JSON.parse(content);
+      if (!requested) locale = XCStringsFormat.normalizeLocale(catalog.sourceLanguage);
+      return { ...XCStringsFormat.parse(catalog, locale), locale };
+    },
+    serialize: (localeFile, existing, { config }) =>
+      XCStringsFormat.serialize(XCStringsFormat.merge(readCatalog(existing, localeFile.raw, config), localeFile))
+  },
+  gettextAdapter('po'),
+  gettextAdapter('pot'),
+  {
+    name: 'properties',
+    extension: '.properties',
+    patterns: ['**/*.properties'],
+    fields: ['description'],
+    detect: filePath => hasExtension(filePath, '.properties'),
+    localeFromPath: (filePath, config) => JavaPropertiesFormat.extractLocale(filePath, config.sourceLocale),
+    parse: content => JavaPropertiesFormat.parse(content),
+    serialize: localeFile => JavaPropertiesFormat.serialize(localeFile)
+  },
+  {
+    name: 'resx',
+    extension: '.resx',
+    patterns: ['**/*.resx'],
+    fields: ['description'],
+    detect: filePath => hasExtension(filePath, '.resx'),
+    localeFromPath: (filePath, config) => ResxFormat.extractLocale(filePath, config.sourceLocale),
+    parse: content => ResxFormat.parse(content),
+    serialize: localeFile => ResxFormat.serialize(localeFile)
+  },
+  {
+    name: 'ftl',
+    extension: '.ftl',
+    patterns: ['**/*.ftl'],
+    fields: ['description'],
+    structuralMetadata: ['term', 'attribute'],
+    detect: filePath => hasExtension(filePath, '.ftl'),
+    parse: content => FluentFormat.parse(content),
+    serialize: localeFile => FluentFormat.serialize(localeFile)
+  }
+];
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { CsvFormat } from './csv';
+import { LocaleFile, LocalzConfig } from '../../types';
+
+const config: LocalzConfig = {
+  flutterLocalesPath: 'l10n',
+  sourceLocale: 'en',
+  targetLocales: ['es', 'pt_BR'],
+  doAutoFix: false,
+  translateMissing: false
+};
+
+const csv = 'key,en,es,pt-BR,notes,description\nwelcome,Welcome,Bienvenido,Bem-vindo,keep me,Home page\n"greeting","Hi, {name}",,Oi,,\n';
+
+function localeFile(content: string, locale: string, delimiter = ',', options: LocalzConfig = config): LocaleFile {
+  const { entries, raw } = CsvFormat.parse(content, locale, delimiter, options);
+  return { locale, path: 'strings.csv', format: delimiter === '\t' ? 'tsv' : 'csv', entries, raw };
+}
+
+describe('CsvFormat', () => {
+  it('reads one locale column, skipping empty cells', () => {
+    const es = localeFile(csv, 'es');
+    expect(Object.keys(es.entries)).toEqual(['welcome']);
+    expect(es.entries.welcome).toMatchObject({ value: 'Bienvenido', description: 'Home page' });
+    expect(localeFile(csv, 'pt_BR').entries.greeting.value).toBe('Oi');
+    expect(localeFile(csv, 'en').entries.greeting.value).toBe('Hi, {name}');
+  });
+
+  it('lists the configured locales that have a column', () => {
+    expect(CsvFormat.locales(csv, ',', config)).toEqual(['en', 'es', 'pt_BR']);
+  });
+
+  it('writes back one column and keeps every other column and row', () => {
+    const es = localeFile(csv, 'es');
+    es.entries.greeting = { key: 'greeting', value: 'Hola, {name}' };
+    es.entries.farewell = { key: 'farewell', value: 'Adiós' };
+
+    expect(CsvFormat.serialize(es, csv, ',', config)).toBe(
+      'key,en,es,pt-BR,notes,description\n' +
+      'welcome,Welcome,Bienvenido,Bem-vindo,keep me,Home page\n' +
+      'greeting,"Hi, {name}","Hola, {name}",Oi,,\n' +
+      'farewell,,Adiós,,,\n'
+    );
+  });
+
+  it('clears cells of removed keys and adds a column for a new locale', () => {
+    const file = localeFile(csv, 'es');
+    delete file.entries.welcome;
+    const fr = { ...localeFile(csv, 'fr'), locale: 'fr', entries: { welcome: { key: 'welcome', value: 'Bienvenue' } } };
+
+    expect(CsvFormat.serialize(file, csv, ',', config).split('\n')[1]).toBe('welcome,Welcome,,Bem-vindo,keep me,Home page');
+    expect(CsvFormat.serialize(fr, csv, ',', config).split('\n').slice(0, 2)).toEqual([
+      'key,en,es,pt-BR,notes,description,fr',
+      'welcome,Welcome,Bienvenido,Bem-vindo,keep me,Home page,Bienvenue'
+    ]);
+  });
+
+  it('keeps the BOM, CRLF line endings and quoting of the original', () => {
+    const quoted = '\uFEFF"key"\t"en"\t"es"\r\n"ok"\t"OK"\t"Vale"\r\n';
+    const es = localeFile(quoted, 'es', '\t');
+    es.entries.ok.value = 'De acuerdo';
+    expect(CsvFormat.serialize(es, quoted, '\t', config)).toBe('\uFEFF"key"\t"en"\t"es"\r\n"ok"\t"OK"\t"De acuerdo"\r\n');
+  });
+
+  it('uses configured key and value columns', () => {
+    const options: LocalzConfig = { ...config, csvOptions: { keyColumn: 'id', valueColumns: { es: 'Spanish' } } };
+    const content = 'id,English,Spanish\nok,OK,Vale\n';
+    const es = localeFile(content, 'es', ',', options);
+    expect(es.entries.ok.value).toBe('Vale');
+    expect(CsvFormat.locales(content, ',', options)).toEqual(['es']);
+
+    es.entries.ok.value = 'Bien';
+    expect(CsvFormat.serialize(es, content, ',', options)).toBe('id,English,Spanish\nok,OK,Bien\n');
+  });
+});
@@ -0,0 +1,139 @@
+import { parse as csvParse } from 'csv-parse/sync';
+import { stringify as csvStringify } from 'csv-stringify/sync';
+import { LocaleEntry, LocaleFile, LocalzConfig } from '../../types';
+import { LocaleTag } from '../../utils/locale-tag';
+
+type CsvRecord = Record<string, string>;
+
+// Spreadsheet exports: one row per key, one column per locale
+export class CsvFormat {
+  static parse(content: string, locale: string, delimiter: string, config: LocalzConfig): { entries: Record<string, LocaleEntry>; raw: Record<string, unknown> } {
+    const records = this.readRecords(content, delimiter);
+    return { entries: this.parseEntries(records, locale, config), raw: { records, locale } };
+  }
+
+  // The configured locales that have a column in the table
+  static locales(content: string, delimiter: string, config: LocalzConfig): string[] {
+    const records = this.readRecords(content, delimiter);
+    const locales = new Set<string>();
+    const configured = [config.sourceLocale, ...config.targetLocales];
+
+    if (records.length > 0) {
+      const columns = Object.keys(records[0]);
+      for (const column of columns) {
+        if (column !== (config.csvOptions?.keyColumn || 'key') &&
+            column !== 'description' &&
+            column !== 'context') {
+          // Columns renamed through csvOptions.valueColumns map back to their locale
+          const valueColumns = config.csvOptions?.valueColumns || {};
+          const mapped = Object.keys(valueColumns).find(locale => valueColumns[locale] === column);
+          locales.add(LocaleTag.canonicalize(mapped || column));
+        }
+      }
+    }
+
+    return Array.from(locales).filter(locale => LocaleTag.find(configured, locale) !== undefined);
+  }
+
+  // Only this locale's column (plus shared description/context/tags columns that
+  // already exist) is touched; other locale columns, unknown columns, row
+  // order, quoting style and line endings are kept as they are.
+  static serialize(localeFile: LocaleFile, existing: string | null, delimiter: string, config: LocalzConfig): string {
+    const keyColumn = config.csvOptions?.keyColumn || 'key';
+    const entries = Object.values(localeFile.entries);
+
+    let columns: string[];
+    let rows: Record<string, string>[];
+    if (existing !== null) {
+      columns = csvParse(existing, { delimiter, bom: true, to_line: 1 })[0] || [];
+      rows = csvParse(existing, { delimiter, columns: true, skip_empty_lines: true, bom: true });
+    } else {
+      rows = (localeFile.raw?.records || []).map((record: Record<string, string>) => ({ ...record }));
+      columns = rows.length > 0 ? Object.keys(rows[0]) : [keyColumn];
+    }
+
+    const valueColumn = this.valueColumn(localeFile.locale, columns, config);
+    if (!columns.includes(keyColumn)) columns.unshift(keyColumn);
+    if (!columns.includes(valueColumn)) columns.push(valueColumn);
+    if (existing === null) {
+      if (entries.some(entry => entry.description) && !columns.includes('description')) columns.push('description');
+      if (entries.some(entry => entry.context) && !columns.includes('context')) columns.push('context');
+      if (entries.some(entry => entry.tags) && !columns.includes('tags')) columns.push('tags');
+    }
+
+    const rowsByKey = new Map(rows.map(row => [row[keyColumn], row]));
+    for (const row of rows) {
+      if (!localeFile.entries[row[keyColumn]]) row[valueColumn] = '';
+    }
+
+    for (const entry of entries) {
+      let row = rowsByKey.get(entry.key);
+      if (!row) {
+        row = Object.fromEntries(columns.map(column => [column, '']));
+        row[keyColumn] = entry.key;
+        rows.push(row);
+        rowsByKey.set(entry.key, row);
+      }
+
+      row[valueColumn] = entry.value;
+      if (entry.description !== undefined && columns.includes('description')) row.description = entry.description;
+      if (entry.context !== undefined && columns.includes('context')) row.context = entry.context;
+      if (entry.tags !== undefined && columns.includes('tags')) row.tags = entry.tags.join(', ');
+    }
+
+    const firstLine = existing?.replace(/^\uFEFF/, '').split(/\r?\n/)[0];
+    const quoteEverything = firstLine === undefined || firstLine.split(delimiter).every(field => /^".*"$/.test(field));
+
+    const content = csvStringify(rows, {
+      delimiter,
+      header: true,
+      columns,
+      record_delimiter: existing?.includes('\r\n') ? '\r\n' : '\n',
+      ...(quoteEverything ? { quoted_string: true } : {})
+    });
+
+    return existing?.startsWith('\uFEFF') ? '\uFEFF' + content : content;
+  }
+
+  private static readRecords(content: string, delimiter: string): CsvRecord[] {
+    return csvParse(content, {
+      delimiter,
+      columns: true,
+      skip_empty_lines: true,
+      bom: true
+    });
+  }
+
+  private static parseEntries(records: CsvRecord[], locale: string, config: LocalzConfig): Record<string, LocaleEntry> {
+    const entries: Record<string, LocaleEntry> = {};
+    const keyColumn = config.csvOptions?.keyColumn || 'key';
+    const valueColumn = this.valueColumn(locale, records.length > 0 ? Object.keys(records[0]) : [], config);
+
+    for (const record of records) {
+      const key = record[keyColumn];
+      const value = record[valueColumn];
+
+      if (key && value) {
+        entries[key] = {
+          key,
+          value: String(value),
+          description: record.description,
+          context: record.context,
+          tags: record.tags ? record.tags.split(',').map(t => t.trim()) : undefined,
+          metadata: record
+        };
+      }
+    }
+
+    return entries;
+  }
+
+  // The column holding `locale`: a configured mapping, else a header spelled
+  // either way (pt-BR or pt_BR), else the locale itself for a new column
+  private static valueColumn(locale: string, columns: string[], config: LocalzConfig): string {
+    const valueColumns = config.csvOptions?.valueColumns || {};
+    const configured = LocaleTag.find(Object.keys(valueColumns), locale);
+    if (configured) return valueColumns[configured];
+    return LocaleTag.find(columns, locale) || locale;
+  }
+}
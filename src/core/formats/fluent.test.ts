@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { FluentFormat } from './fluent';
+import { LocaleFile } from '../../types';
+
+const ftl = `### Resource comment
+
+-brand-name = Foxfire
+
+## Group comment
+
+# Greeting on the home page
+welcome = Welcome to { -brand-name }, { $user }!
+login-input = Predefined value
+    .placeholder = email@example.com
+    .aria-label = Login input value
+emails =
+    { $unreadEmails ->
+        [one] You have one unread email.
+       *[other] You have { $unreadEmails } unread emails.
+    }
+`;
+
+function localeFile(content: string): LocaleFile {
+  const { entries, raw } = FluentFormat.parse(content);
+  return { locale: 'en', path: 'en.ftl', format: 'ftl', entries, raw };
+}
+
+describe('FluentFormat', () => {
+  it('reads messages, terms and attributes', () => {
+    const { entries } = localeFile(ftl);
+    expect(Object.keys(entries)).toEqual([
+      '-brand-name', 'welcome', 'login-input', 'login-input.placeholder', 'login-input.aria-label', 'emails'
+    ]);
+    expect(entries['-brand-name'].metadata).toEqual({ term: true });
+    expect(entries.welcome).toMatchObject({ value: 'Welcome to { -brand-name }, { $user }!', description: 'Greeting on the home page' });
+    expect(entries['login-input.placeholder']).toMatchObject({ value: 'email@example.com', metadata: { attribute: 'placeholder' } });
+    expect(entries.emails.value).toBe([
+      '{ $unreadEmails ->',
+      '    [one] You have one unread email.',
+      '   *[other] You have { $unreadEmails } unread emails.',
+      '}'
+    ].join('\n'));
+  });
+
+  it('round-trips a resource with its comments', () => {
+    expect(FluentFormat.serialize(localeFile(ftl))).toBe(ftl);
+  });
+
+  it('updates, drops and appends messages and attributes', () => {
+    const file = localeFile(ftl);
+    file.entries.welcome.value = 'Hi { $user }';
+    delete file.entries['login-input.aria-label'];
+    file.entries['login-input.title'] = { key: 'login-input.title', value: 'Login' };
+    file.entries.goodbye = { key: 'goodbye', value: 'Bye', description: 'New message' };
+
+    const content = FluentFormat.serialize(file);
+    expect(content).toContain('welcome = Hi { $user }\n');
+    expect(content).not.toContain('aria-label');
+    expect(content).toContain('    .title = Login\n');
+    expect(content).toContain('# New message\ngoodbye = Bye\n');
+    expect(content).toContain('### Resource comment');
+  });
+
+  it('lists references and select expressions', () => {
+    const { entries } = localeFile(ftl);
+    expect(FluentFormat.references(entries.welcome.value)).toEqual(['-brand-name', '$user']);
+    expect(FluentFormat.selects(entries.emails.value)).toEqual([{ selector: '$unreadEmails', keys: ['one', 'other'] }]);
+  });
+
+  it('reports invalid patterns', () => {
+    expect(FluentFormat.syntaxError('Hello { $user')).toMatch(/Invalid Fluent value/);
+    expect(FluentFormat.syntaxError('Hello { $user }')).toBeNull();
+    expect(FluentFormat.references('Hello { $user')).toEqual([]);
+  });
+
+  it('converts ICU messages to Fluent and back', () => {
+    const messages = [
+      'Hello {name}, you have {count, number} points',
+      '{count, plural, =0{No files} one{# file} other{# files}}',
+      '{gender, select, male{He} female{She} other{They}} said \'{\'hi\'}\'',
+      '{place, selectordinal, one{#st} two{#nd} few{#rd} other{#th}}'
+    ];
+    for (const message of messages) {
+      expect(FluentFormat.toICU(FluentFormat.fromICU(message))).toBe(message);
+    }
+    expect(FluentFormat.fromICU(messages[0])).toBe('Hello { $name }, you have { NUMBER($count) } points');
+    expect(FluentFormat.toICU('{ $tab ->\n    [a] Inbox\n   *[b] Sent\n}')).toBe('{tab, select, a{Inbox} b{Sent} other{Sent}}');
+  });
+
+  it('refuses what the other syntax cannot express', () => {
+    expect(() => FluentFormat.toICU('Welcome to { -brand-name }')).toThrow('{ -brand-name } has no ICU equivalent');
+    expect(() => FluentFormat.fromICU('{when, time, short}')).toThrow('has no Fluent equivalent');
+  });
+});
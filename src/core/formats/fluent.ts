@@ -0,0 +1,346 @@
+import {
+  Attribute,
+  CallArguments,
+  Comment,
+  Expression,
+  FluentParser,
+  FluentSerializer,
+  FunctionReference,
+  Identifier,
+  Junk,
+  Message,
+  MessageReference,
+  NamedArgument,
+  NumberLiteral,
+  Pattern,
+  PatternElement,
+  Placeable,
+  SelectExpression,
+  StringLiteral,
+  Term,
+  TermReference,
+  TextElement,
+  VariableReference,
+  Variant,
+  Visitor,
+  serializeExpression,
+  serializeVariantKey
+} from '@fluent/syntax';
+import { Token, parse as parseICU } from '@messageformat/parser';
+import { LocaleEntry, LocaleFile } from '../../types';
+import { PLURAL_CATEGORIES } from '../../utils/icu-plural';
+
+// ICU formatting functions and the Fluent functions that do the same
+const ICU_FUNCTIONS: Record<string, string> = { number: 'NUMBER', date: 'DATETIME' };
+
+export interface FluentSelect {
+  selector: string;
+  keys: string[];
+}
+
+class ReferenceCollector extends Visitor {
+  references = new Set<string>();
+  selects: FluentSelect[] = [];
+
+  visitVariableReference(node: VariableReference): void {
+    this.references.add(`$${node.id.name}`);
+  }
+
+  visitTermReference(node: TermReference): void {
+    this.references.add(`-${node.id.name}`);
+    this.genericVisit(node);
+  }
+
+  visitMessageReference(node: MessageReference): void {
+    this.references.add(node.attribute ? `${node.id.name}.${node.attribute.name}` : node.id.name);
+  }
+
+  visitSelectExpression(node: SelectExpression): void {
+    this.selects.push({
+      selector: serializeExpression(node.selector),
+      keys: node.variants.map(variant => serializeVariantKey(variant.key))
+    });
+    this.genericVisit(node);
+  }
+}
+
+export class FluentFormat {
+  private static parser = new FluentParser({ withSpans: false });
+  private static serializer = new FluentSerializer({ withJunk: true });
+
+  // Messages and terms (-brand-name) become entries keyed by their id;
+  // attributes become separate `id.attribute` entries. Values are kept in
+  // Fluent syntax with continuation lines dedented.
+  static parse(content: string): { entries: Record<string, LocaleEntry>; raw: Record<string, unknown> } {
+    const resource = this.parser.parse(content.replace(/^\uFEFF/, ''));
+    const entries: Record<string, LocaleEntry> = {};
+
+    for (const entry of resource.body) {
+      if (!(entry instanceof Message || entry instanceof Term)) continue;
+
+      const id = this.entryId(entry);
+      const metadata = entry instanceof Term ? { term: true } : undefined;
+      if (entry.value) {
+        entries[id] = {
+          key: id,
+          value: this.readPattern(entry.value),
+          ...(entry.comment && { description: entry.comment.content }),
+          ...(metadata && { metadata })
+        };
+      }
+
+      for (const attribute of entry.attributes) {
+        const key = `${id}.${attribute.id.name}`;
+        entries[key] = {
+          key,
+          value: this.readPattern(attribute.value),
+          metadata: { ...metadata, attribute: attribute.id.name }
+        };
+      }
+    }
+
+    return {
+      entries,
+      raw: { source: content }
+    };
+  }
+
+  // Re-parses the original resource so resource/group comments and junk
+  // survive, then updates, drops, or appends messages to match the entries.
+  static serialize(localeFile: LocaleFile): string {
+    const resource = this.parser.parse(localeFile.raw?.source || '');
+    const entries = localeFile.entries;
+    const written = new Set<string>();
+
+    resource.body = resource.body.filter(entry => {
+      if (!(entry instanceof Message || entry instanceof Term)) return true;
+
+      const id = this.entryId(entry);
+      const valueEntry = entries[id];
+      entry.value = valueEntry ? this.parsePattern(valueEntry.value, id) : null;
+      entry.comment = valueEntry?.description ? new Comment(valueEntry.description) : null;
+      written.add(id);
+
+      entry.attributes = entry.attributes.filter(attribute => entries[`${id}.${attribute.id.name}`]);
+      for (const attribute of entry.attributes) {
+        const key = `${id}.${attribute.id.name}`;
+        attribute.value = this.parsePattern(entries[key].value, key);
+        written.add(key);
+      }
+      for (const key of Object.keys(entries)) {
+        if (!written.has(key) && key.startsWith(`${id}.`)) {
+          entry.attributes.push(new Attribute(new Identifier(key.slice(id.length + 1)), this.parsePattern(entries[key].value, key)));
+          written.add(key);
+        }
+      }
+
+      // Terms require a value; messages need a value or at least one attribute
+      return entry.value !== null || (entry instanceof Message && entry.attributes.length > 0);
+    });
+
+    const added = new Map<string, Message | Term>();
+    for (const entry of Object.values(entries)) {
+      if (written.has(entry.key)) continue;
+
+      const separator = entry.key.indexOf('.');
+      const id = separator === -1 ? entry.key : entry.key.slice(0, separator);
+      let message = added.get(id);
+      if (!message) {
+        const identifier = new Identifier(id.replace(/^-/, ''));
+        message = id.startsWith('-')
+          ? new Term(identifier, new Pattern([]))
+          : new Message(identifier, null);
+        added.set(id, message);
+        resource.body.push(message);
+      }
+
+      if (separator === -1) {
+        message.value = this.parsePattern(entry.value, entry.key);
+        message.comment = entry.description ? new Comment(entry.description) : null;
+      } else {
+        message.attributes.push(new Attribute(new Identifier(entry.key.slice(separator + 1)), this.parsePattern(entry.value, entry.key)));
+      }
+    }
+
+    return this.serializer.serialize(resource);
+  }
+
+  // Variables ($name), terms (-brand) and message references used by a value
+  static references(value: string): string[] {
+    const collector = this.collect(value);
+    return collector ? Array.from(collector.references) : [];
+  }
+
+  static selects(value: string): FluentSelect[] {
+    const collector = this.collect(value);
+    return collector ? collector.selects : [];
+  }
+
+  // Returns the parser's error message when a value is not a valid Fluent pattern
+  static syntaxError(value: string): string | null {
+    try {
+      this.parsePattern(value, 'value');
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  // An ICU message in Fluent syntax: {name} → { $name }, {n, number} →
+  // { NUMBER($n) }, plural and select cases → variants with `other` as the
+  // default. Throws for ICU messages that are invalid or have no Fluent form.
+  static fromICU(value: string): string {
+    return this.readPattern(new Pattern(this.fromTokens(parseICU(value))));
+  }
+
+  // A Fluent value as an ICU message; the inverse of fromICU. Throws for
+  // references to other messages and terms, which ICU has no place for.
+  static toICU(value: string): string {
+    return this.toMessage(this.parsePattern(value, 'value').elements);
+  }
+
+  private static fromTokens(tokens: Token[], pluralArgument?: string): PatternElement[] {
+    const elements: PatternElement[] = [];
+    for (const token of tokens) {
+      switch (token.type) {
+        case 'content':
+          // Braces are special in Fluent text, so they become string literals
+          for (const part of token.value.split(/([{}])/)) {
+            if (part === '{' || part === '}') elements.push(new Placeable(new StringLiteral(part)));
+            else if (part) elements.push(new TextElement(part));
+          }
+          break;
+        case 'octothorpe':
+          elements.push(pluralArgument ? new Placeable(new VariableReference(new Identifier(pluralArgument))) : new TextElement('#'));
+          break;
+        case 'argument':
+          elements.push(new Placeable(new VariableReference(new Identifier(token.arg))));
+          break;
+        case 'function': {
+          const fluentFunction = ICU_FUNCTIONS[token.key];
+          if (!fluentFunction || token.param) {
+            throw new Error(`{${token.arg}, ${token.key}${token.param ? ', …' : ''}} has no Fluent equivalent`);
+          }
+          elements.push(new Placeable(this.call(fluentFunction, token.arg)));
+          break;
+        }
+        default: {
+          if (token.pluralOffset) throw new Error(`{${token.arg}, ${token.type}, offset:…} has no Fluent equivalent`);
+          const selector = token.type === 'selectordinal'
+            ? this.call('NUMBER', token.arg, new NamedArgument(new Identifier('type'), new StringLiteral('ordinal')))
+            : new VariableReference(new Identifier(token.arg));
+          const variants = token.cases.map(option => new Variant(
+            this.variantKey(option.key),
+            new Pattern(this.fromTokens(option.tokens, token.type === 'select' ? pluralArgument : token.arg)),
+            option.key === 'other'
+          ));
+          elements.push(new Placeable(new SelectExpression(selector, variants)));
+        }
+      }
+    }
+    return elements;
+  }
+
+  private static call(name: string, argument: string, ...named: NamedArgument[]): FunctionReference {
+    return new FunctionReference(new Identifier(name), new CallArguments([new VariableReference(new Identifier(argument))], named));
+  }
+
+  private static variantKey(key: string): Identifier | NumberLiteral {
+    if (/^=\d+(\.\d+)?$/.test(key)) return new NumberLiteral(key.slice(1));
+    if (/^[a-zA-Z][\w-]*$/.test(key)) return new Identifier(key);
+    throw new Error(`Case "${key}" is not a valid Fluent variant key`);
+  }
+
+  // Inside a plural case the plural's own argument is written as #
+  private static toMessage(elements: PatternElement[], pluralArgument?: string): string {
+    // Apostrophes only quote when they precede ICU syntax, so these are all that need it
+    const escape = (text: string) => text.replace(pluralArgument !== undefined ? /[{}#]+/g : /[{}]+/g, special => `'${special}'`);
+    return elements.map(element => element instanceof TextElement
+      ? escape(element.value)
+      : this.toArgument(element.expression, escape, pluralArgument)).join('');
+  }
+
+  private static toArgument(expression: Expression, escape: (text: string) => string, pluralArgument?: string): string {
+    if (expression instanceof StringLiteral) return escape(expression.parse().value);
+    if (expression instanceof NumberLiteral) return escape(expression.value);
+    if (expression instanceof VariableReference) {
+      return expression.id.name === pluralArgument ? '#' : `{${expression.id.name}}`;
+    }
+    if (expression instanceof Placeable) return this.toArgument(expression.expression, escape, pluralArgument);
+
+    if (expression instanceof FunctionReference) {
+      const argument = expression.arguments.positional[0];
+      const icuFunction = Object.keys(ICU_FUNCTIONS).find(key => ICU_FUNCTIONS[key] === expression.id.name);
+      if (icuFunction && argument instanceof VariableReference && expression.arguments.named.length === 0) {
+        return `{${argument.id.name}, ${icuFunction}}`;
+      }
+    }
+
+    if (expression instanceof SelectExpression) {
+      const selector = expression.selector;
+      const isOrdinal = selector instanceof FunctionReference && selector.id.name === 'NUMBER' &&
+        selector.arguments.named.some(option => option.name.name === 'type' && option.value.value === 'ordinal');
+      const argument = selector instanceof VariableReference
+        ? selector.id.name
+        : selector instanceof FunctionReference && selector.id.name === 'NUMBER' && selector.arguments.positional[0] instanceof VariableReference
+          ? selector.arguments.positional[0].id.name
+          : undefined;
+
+      if (argument !== undefined) {
+        const keys = expression.variants.map(variant => variant.key instanceof NumberLiteral ? `=${variant.key.value}` : variant.key.name);
+        const isPlural = isOrdinal || selector instanceof FunctionReference ||
+          keys.some(key => key.startsWith('=') || (key !== 'other' && (PLURAL_CATEGORIES as readonly string[]).includes(key)));
+        const caseArgument = isPlural ? argument : pluralArgument;
+        const cases = expression.variants.map((variant, index) => `${keys[index]}{${this.toMessage(variant.value.elements, caseArgument)}}`);
+        // ICU falls back to `other`, Fluent to the variant marked with *
+        const fallback = expression.variants.find(variant => variant.default);
+        if (!keys.includes('other') && fallback) cases.push(`other{${this.toMessage(fallback.value.elements, caseArgument)}}`);
+        return `{${argument}, ${isOrdinal ? 'selectordinal' : isPlural ? 'plural' : 'select'}, ${cases.join(' ')}}`;
+      }
+    }
+
+    throw new Error(`{ ${serializeExpression(expression)} } has no ICU equivalent`);
+  }
+
+  private static collect(value: string): ReferenceCollector | null {
+    let pattern: Pattern;
+    try {
+      pattern = this.parsePattern(value, 'value');
+    } catch {
+      return null;
+    }
+    const collector = new ReferenceCollector();
+    collector.visit(pattern);
+    return collector;
+  }
+
+  private static entryId(entry: Message | Term): string {
+    return entry instanceof Term ? `-${entry.id.name}` : entry.id.name;
+  }
+
+  private static readPattern(pattern: Pattern): string {
+    const serialized = this.serializer
+      .serializeEntry(new Message(new Identifier('m'), pattern))
+      .replace(/^m =/, '')
+      .replace(/\n$/, '');
+    return serialized.startsWith('\n')
+      ? serialized.slice(1).replace(/^ {4}/gm, '')
+      : serialized.slice(1);
+  }
+
+  private static parsePattern(value: string, key: string): Pattern {
+    const lines = value.split('\n');
+    const body = value === ''
+      ? ' { "" }'
+      : lines.length > 1
+        ? '\n' + lines.map(line => line ? `    ${line}` : '').join('\n')
+        : ` ${value}`;
+
+    const entry = this.parser.parseEntry(`m =${body}\n`);
+    if (entry instanceof Junk || !(entry instanceof Message) || !entry.value) {
+      const annotation = entry instanceof Junk ? entry.annotations[0]?.message : undefined;
+      throw new Error(`Invalid Fluent value for "${key}"${annotation ? `: ${annotation}` : ''}`);
+    }
+    return entry.value;
+  }
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { GettextFormat } from './gettext';
+import { LocaleFile } from '../../types';
+import { ICUArguments } from '../../utils/icu-arguments';
+
+const ruPo = `msgid ""
+msgstr ""
+"Language: ru\\n"
+"Content-Type: text/plain; charset=UTF-8\\n"
+"Plural-Forms: nplurals=3; plural=(n%10==1 && n%100!=11 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);\\n"
+
+# Shown on the toolbar
+#: src/toolbar.c:12
+msgctxt "menu"
+msgid "Open"
+msgstr "Открыть"
+
+msgid "%d file"
+msgid_plural "%d files"
+msgstr[0] "%d файл"
+msgstr[1] "%d файла"
+msgstr[2] "%d файлов"
+
+msgid "Untranslated"
+msgstr ""
+`;
+
+function localeFile(content: string, locale: string, useMsgid = false): LocaleFile {
+  const { entries, raw } = GettextFormat.parse(content, locale, useMsgid);
+  return { locale, path: `${locale}.po`, format: 'po', entries, raw };
+}
+
+describe('GettextFormat', () => {
+  it('reads context, comments and references', () => {
+    const { entries } = localeFile(ruPo, 'ru');
+    expect(entries['menu\u0004Open']).toMatchObject({
+      value: 'Открыть',
+      context: 'menu',
+      description: 'Shown on the toolbar',
+      metadata: { msgid: 'Open', references: ['src/toolbar.c:12'] }
+    });
+  });
+
+  it('maps Russian plural forms to CLDR categories with an other case', () => {
+    const { entries } = localeFile(ruPo, 'ru');
+    const value = entries['%d file'].value;
+    expect(value).toBe('{count, plural, one{%d файл} few{%d файла} many{%d файлов} other{%d файлов}}');
+    expect(ICUArguments.parse(value)).not.toBeNull();
+  });
+
+  it('keeps untranslated messages out of the entries', () => {
+    expect(localeFile(ruPo, 'ru').entries.Untranslated).toBeUndefined();
+  });
+
+  it('round-trips a file unchanged', () => {
+    expect(GettextFormat.serialize(localeFile(ruPo, 'ru'), false)).toBe(ruPo);
+  });
+
+  it('fills every msgstr from other when a translation has fewer cases', () => {
+    const file = localeFile(ruPo, 'ru');
+    file.entries['%d file'].value = '{count, plural, one{%d файл} other{%d файлов}}';
+    expect(GettextFormat.serialize(file, false)).toContain('msgstr[1] "%d файлов"\nmsgstr[2] "%d файлов"');
+  });
+
+  it('does not write exact cases into category slots', () => {
+    const en = `msgid ""
+msgstr ""
+"Language: en\\n"
+"Plural-Forms: nplurals=2; plural=(n != 1);\\n"
+
+msgid "%d item"
+msgid_plural "%d items"
+msgstr[0] "%d item"
+msgstr[1] "%d items"
+`;
+    const file = localeFile(en, 'en');
+    file.entries['%d item'].value = '{count, plural, =0{No items} =1{One item} other{%d items}}';
+    const written = GettextFormat.serialize(file, false);
+    expect(written).toContain('msgstr[0] "%d items"\nmsgstr[1] "%d items"');
+    expect(localeFile(written, 'en').entries['%d item'].value).toBe('{count, plural, one{%d items} other{%d items}}');
+
+    const es = localeFile(en.replace('Language: en', 'Language: es'), 'es');
+    es.entries['%d item'].value = '{count, plural, =1{Un artículo} one{%d artículo} other{%d artículos}}';
+    expect(GettextFormat.serialize(es, false)).toContain('msgstr[0] "%d artículo"\nmsgstr[1] "%d artículos"');
+  });
+
+  it('uses msgids as values for templates', () => {
+    const pot = ruPo.replace(/^(msgstr(?:\[\d\])?) "[^"]+"$/gm, '$1 ""');
+    const { entries } = localeFile(pot, 'en', true);
+    expect(entries['%d file'].value).toBe('{count, plural, one{%d file} other{%d files}}');
+    expect(entries.Untranslated.value).toBe('Untranslated');
+  });
+
+  it('reads the locale from LC_MESSAGES folders and headers', () => {
+    expect(GettextFormat.extractLocale('locale/pt_BR/LC_MESSAGES/app.po', 'en')).toBe('pt_BR');
+    expect(GettextFormat.extractLocale('po/messages.pot', 'en')).toBe('en');
+    expect(GettextFormat.headerLocale(ruPo)).toBe('ru');
+  });
+});
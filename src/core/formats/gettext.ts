@@ -0,0 +1,362 @@
+import * as path from 'path';
+import { LocaleEntry, LocaleFile } from '../../types';
+import { ICUPlural, PLURAL_CATEGORIES } from '../../utils/icu-plural';
+import { LocaleTag } from '../../utils/locale-tag';
+
+interface PoMessage {
+  translatorComments: string[];
+  extractedComments: string[];
+  references: string[];
+  flags: string[];
+  previous: string[];
+  msgctxt?: string;
+  msgid?: string;
+  msgidPlural?: string;
+  msgstr: string[];
+}
+
+// gettext joins context and msgid with an EOT character in compiled catalogs
+const CONTEXT_SEPARATOR = '\u0004';
+
+export class GettextFormat {
+  static readonly PLURAL_ARGUMENT = 'count';
+
+  // For templates (and the source locale) the msgid is the value; for
+  // translations an empty msgstr means "untranslated" and the entry is skipped.
+  static parse(content: string, locale: string, useMsgid: boolean): { entries: Record<string, LocaleEntry>; raw: Record<string, unknown> } {
+    const { header, messages, obsolete } = this.readMessages(content);
+    const headers = header?.msgstr[0] || '';
+    const categories = this.pluralCategories(headers, locale);
+    const entries: Record<string, LocaleEntry> = {};
+    const untranslated: LocaleEntry[] = [];
+
+    for (const message of messages) {
+      const msgid = message.msgid!;
+      const key = message.msgctxt !== undefined ? `${message.msgctxt}${CONTEXT_SEPARATOR}${msgid}` : msgid;
+
+      let value = '';
+      if (message.msgidPlural !== undefined) {
+        const forms: Record<string, string> = {};
+        if (useMsgid) {
+          forms.one = message.msgstr[0] || msgid;
+          forms.other = message.msgstr[1] || message.msgidPlural;
+        } else {
+          message.msgstr.forEach((form, index) => {
+            forms[categories[index] || `=${index}`] = form;
+          });
+          // ICU requires `other`. gettext's last form is its catch-all, so it
+          // doubles as `other` when integers alone select it (Russian `many`).
+          if (forms.other === undefined && message.msgstr.length > 0) {
+            forms.other = message.msgstr[message.msgstr.length - 1];
+          }
+        }
+        if (Object.values(forms).some(Boolean)) {
+          value = ICUPlural.build(this.PLURAL_ARGUMENT, forms);
+        }
+      } else {
+        value = message.msgstr[0] || (useMsgid ? msgid : '');
+      }
+
+      const metadata: Record<string, unknown> = { msgid };
+      if (message.msgidPlural !== undefined) metadata.msgidPlural = message.msgidPlural;
+      if (message.extractedComments.length > 0) metadata.extractedComments = message.extractedComments;
+      if (message.references.length > 0) metadata.references = message.references;
+      if (message.previous.length > 0) metadata.previous = message.previous;
+
+      const entry: LocaleEntry = {
+        key,
+        value,
+        metadata,
+        ...(message.translatorComments.length > 0 && { description: message.translatorComments.join('\n') }),
+        ...(message.msgctxt !== undefined && { context: message.msgctxt }),
+        ...(message.flags.length > 0 && { tags: message.flags })
+      };
+
+      // Untranslated messages are kept out of the entries so they surface as
+      // missing, but are remembered so writing the file does not drop them
+      if (value) {
+        entries[key] = entry;
+      } else {
+        untranslated.push(entry);
+      }
+    }
+
+    return {
+      entries,
+      raw: {
+        headers,
+        headerComments: header?.translatorComments || [],
+        untranslated,
+        obsolete
+      }
+    };
+  }
+
+  static serialize(localeFile: LocaleFile, isTemplate: boolean): string {
+    const raw = localeFile.raw || {};
+    const headers = raw.headers || 'Content-Type: text/plain; charset=UTF-8\n';
+    const categories = this.pluralCategories(headers, localeFile.locale);
+    const blocks: string[] = [];
+
+    const headerLines = (raw.headerComments || []).map((comment: string) => comment ? `# ${comment}` : '#');
+    headerLines.push('msgid ""', ...this.formatString('msgstr', headers, true));
+    blocks.push(headerLines.join('\n'));
+
+    const untranslated: LocaleEntry[] = (raw.untranslated || [])
+      .filter((entry: LocaleEntry) => !localeFile.entries[entry.key]);
+
+    for (const entry of [...Object.values(localeFile.entries), ...untranslated]) {
+      const metadata = entry.metadata || {};
+      const msgid: string = metadata.msgid ?? (entry.context !== undefined
+        ? entry.key.slice(entry.key.indexOf(CONTEXT_SEPARATOR) + 1)
+        : entry.key);
+      const lines: string[] = [];
+
+      for (const comment of (entry.description ? entry.description.split('\n') : [])) {
+        lines.push(comment ? `# ${comment}` : '#');
+      }
+      for (const comment of metadata.extractedComments || []) lines.push(`#. ${comment}`);
+      for (const reference of metadata.references || []) lines.push(`#: ${reference}`);
+      if (entry.tags && entry.tags.length > 0) lines.push(`#, ${entry.tags.join(', ')}`);
+      for (const previous of metadata.previous || []) lines.push(`#| ${previous}`);
+
+      if (entry.context !== undefined) lines.push(...this.formatString('msgctxt', entry.context));
+      lines.push(...this.formatString('msgid', msgid));
+
+      const plural = ICUPlural.parse(entry.value);
+      if (metadata.msgidPlural !== undefined || plural) {
+        const forms = plural?.forms || {};
+        lines.push(...this.formatString('msgid_plural', metadata.msgidPlural ?? forms.other ?? msgid));
+
+        // msgstr[n] holds the locale's nth category. Exact cases (=0, =1) have
+        // no slot of their own and are left out.
+        const count = isTemplate ? 2 : Math.max(categories.length, 1);
+        for (let index = 0; index < count; index++) {
+          const form = isTemplate ? '' : (forms[categories[index]] ?? forms.other ?? '');
+          lines.push(...this.formatString(`msgstr[${index}]`, form));
+        }
+      } else {
+        lines.push(...this.formatString('msgstr', isTemplate ? '' : entry.value));
+      }
+
+      blocks.push(lines.join('\n'));
+    }
+
+    for (const block of raw.obsolete || []) {
+      blocks.push(block);
+    }
+
+    return blocks.join('\n\n') + '\n';
+  }
+
+  // es.po, es_MX.po → handled by the generic rules; locale/es/LC_MESSAGES/app.po → es; *.pot → default locale
+  static extractLocale(filePath: string, defaultLocale: string): string | null {
+    if (path.extname(filePath).toLowerCase() === '.pot') return defaultLocale;
+
+    const parent = path.basename(path.dirname(filePath));
+    if (parent === 'LC_MESSAGES') {
+      return LocaleTag.canonicalize(path.basename(path.dirname(path.dirname(filePath))));
+    }
+
+    return null;
+  }
+
+  static headerLocale(content: string): string | null {
+    const match = content.match(/^"Language:\s*([^\\"]+?)\s*\\n"/m);
+    return match ? LocaleTag.canonicalize(match[1]) : null;
+  }
+
+  // Maps msgstr[n] indices onto CLDR categories by evaluating the catalog's
+  // Plural-Forms expression against Intl.PluralRules for the same integers.
+  static pluralCategories(headers: string, locale: string): string[] {
+    const pluralForms = headers.match(/Plural-Forms:\s*nplurals\s*=\s*(\d+)\s*;\s*plural\s*=\s*([^;\n]+)/);
+    const rules = this.pluralRules(locale);
+    const cldrCategories = rules?.resolvedOptions().pluralCategories
+      .slice()
+      .sort((a, b) => (PLURAL_CATEGORIES as readonly string[]).indexOf(a) - (PLURAL_CATEGORIES as readonly string[]).indexOf(b)) || ['one', 'other'];
+
+    if (!pluralForms || !rules) return cldrCategories;
+
+    const nplurals = parseInt(pluralForms[1], 10);
+    const expression = pluralForms[2].trim();
+    if (!/^[n0-9\s?:()<>=!&|%+\-*/]+$/.test(expression)) return cldrCategories;
+
+    let evaluate: (n: number) => number;
+    try {
+      evaluate = new Function('n', `return Number(${expression});`) as (n: number) => number;
+    } catch {
+      return cldrCategories;
+    }
+
+    const votes: Array<Record<string, number>> = Array.from({ length: nplurals }, () => ({}));
+    for (let n = 0; n <= 1000; n++) {
+      const index = evaluate(n);
+      if (index >= 0 && index < nplurals) {
+        const category = rules.select(n);
+        votes[index][category] = (votes[index][category] || 0) + 1;
+      }
+    }
+
+    const used = new Set<string>();
+    return votes.map((counts, index) => {
+      const ranked = Object.entries(counts).sort((a, b) => b[1] - a[1]).map(([category]) => category);
+      const category = ranked.find(candidate => !used.has(candidate)) || `=${index}`;
+      used.add(category);
+      return category;
+    });
+  }
+
+  private static pluralRules(locale: string): Intl.PluralRules | null {
+    try {
+      return new Intl.PluralRules(LocaleTag.toBCP47(locale));
+    } catch {
+      return null;
+    }
+  }
+
+  private static readMessages(content: string): { header?: PoMessage; messages: PoMessage[]; obsolete: string[] } {
+    const messages: PoMessage[] = [];
+    const obsolete: string[] = [];
+    let header: PoMessage | undefined;
+    let obsoleteBlock: string[] = [];
+    let current = this.emptyMessage();
+    let lastField: { name: 'msgctxt' | 'msgid' | 'msgidPlural' | 'msgstr'; index: number } | undefined;
+
+    const flush = () => {
+      if (current.msgid !== undefined) {
+        if (current.msgid === '' && current.msgctxt === undefined && !header) {
+          header = current;
+        } else {
+          messages.push(current);
+        }
+        current = this.emptyMessage();
+      }
+      lastField = undefined;
+    };
+
+    const flushObsolete = () => {
+      if (obsoleteBlock.length > 0) {
+        obsolete.push(obsoleteBlock.join('\n'));
+        obsoleteBlock = [];
+      }
+    };
+
+    for (const rawLine of content.replace(/^\uFEFF/, '').split(/\r?\n/)) {
+      const line = rawLine.trim();
+
+      if (line.startsWith('#~')) {
+        flush();
+        obsoleteBlock.push(rawLine);
+        continue;
+      }
+      flushObsolete();
+
+      if (!line) {
+        flush();
+        continue;
+      }
+
+      if (line.startsWith('#')) {
+        if (current.msgstr.length > 0) flush();
+        const text = line.slice(2).trim();
+        switch (line[1]) {
+          case '.':
+            current.extractedComments.push(text);
+            break;
+          case ':':
+            current.references.push(text);
+            break;
+          case ',':
+            current.flags.push(...text.split(',').map(flag => flag.trim()).filter(Boolean));
+            break;
+          case '|':
+            current.previous.push(text);
+            break;
+          default:
+            current.translatorComments.push(line.slice(1).replace(/^ /, ''));
+        }
+        continue;
+      }
+
+      const keyword = line.match(/^(msgctxt|msgid_plural|msgid|msgstr)(?:\[(\d+)\])?\s+(".*")$/);
+      if (keyword) {
+        const [, name, index, literal] = keyword;
+        if ((name === 'msgctxt' || name === 'msgid') && current.msgstr.length > 0) flush();
+
+        const value = this.unquote(literal);
+        if (name === 'msgstr') {
+          const position = index !== undefined ? parseInt(index, 10) : 0;
+          current.msgstr[position] = value;
+          lastField = { name: 'msgstr', index: position };
+        } else {
+          const field = name === 'msgid_plural' ? 'msgidPlural' : name as 'msgctxt' | 'msgid';
+          current[field] = value;
+          lastField = { name: field, index: 0 };
+        }
+        continue;
+      }
+
+      if (line.startsWith('"') && lastField) {
+        const value = this.unquote(line);
+        if (lastField.name === 'msgstr') {
+          current.msgstr[lastField.index] += value;
+        } else {
+          current[lastField.name] = (current[lastField.name] || '') + value;
+        }
+        continue;
+      }
+
+      throw new Error(`Invalid PO syntax: ${line}`);
+    }
+
+    flush();
+    flushObsolete();
+    return { header, messages, obsolete };
+  }
+
+  private static emptyMessage(): PoMessage {
+    return {
+      translatorComments: [],
+      extractedComments: [],
+      references: [],
+      flags: [],
+      previous: [],
+      msgstr: []
+    };
+  }
+
+  private static unquote(literal: string): string {
+    return literal
+      .slice(1, -1)
+      .replace(/\\(.)/g, (_, char: string) => {
+        switch (char) {
+          case 'n':
+            return '\n';
+          case 't':
+            return '\t';
+          case 'r':
+            return '\r';
+          default:
+            return char;
+        }
+      });
+  }
+
+  private static quote(value: string): string {
+    return '"' + value
+      .replace(/\\/g, '\\\\')
+      .replace(/"/g, '\\"')
+      .replace(/\t/g, '\\t')
+      .replace(/\r/g, '\\r')
+      .replace(/\n/g, '\\n') + '"';
+  }
+
+  // Multi-line values are written gettext-style: an empty first line, then one line per \n
+  private static formatString(keyword: string, value: string, multiline = false): string[] {
+    const lines = value.split(/(?<=\n)/);
+    if (lines.length <= 1 && !multiline) {
+      return [`${keyword} ${this.quote(value)}`];
+    }
+    return [`${keyword} ""`, ...lines.map(line => this.quote(line))];
+  }
+}
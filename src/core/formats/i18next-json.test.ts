@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { I18nextJsonFormat } from './i18next-json';
+import { JsonValue, LocalzConfig } from '../../types';
+
+type JsonOptions = NonNullable<LocalzConfig['jsonOptions']>;
+
+const i18next: JsonOptions = { mode: 'i18next', contexts: ['male', 'female'] };
+
+function roundTrip(raw: { [key: string]: JsonValue }, options: JsonOptions) {
+  const entries = I18nextJsonFormat.parse(raw, options);
+  return { entries, output: I18nextJsonFormat.serialize(Object.values(entries), raw, options) };
+}
+
+describe('I18nextJsonFormat', () => {
+  it('detects nested files and round-trips them, arrays included', () => {
+    const raw = { home: { title: 'Home', tabs: ['One', 'Two'] }, flat: 'Flat' };
+    expect(I18nextJsonFormat.resolveMode(raw)).toBe('nested');
+    expect(I18nextJsonFormat.resolveMode({ a: 'b' })).toBe('flat');
+
+    const { entries, output } = roundTrip(raw, {});
+    expect(Object.keys(entries)).toEqual(['home.title', 'home.tabs.0', 'home.tabs.1', 'flat']);
+    expect(output).toEqual(raw);
+  });
+
+  it('groups plural forms into an ICU plural and expands them back', () => {
+    const raw = { item_one: '{{count}} item', item_other: '{{count}} items', place_ordinal_one: '{{count}}st', place_ordinal_other: '{{count}}th' };
+    const { entries, output } = roundTrip(raw, i18next);
+    expect(entries.item.value).toBe('{count, plural, one{{count} item} other{{count} items}}');
+    expect(entries.place_ordinal.value).toBe('{count, selectordinal, one{{count}st} other{{count}th}}');
+    expect(output).toEqual(raw);
+  });
+
+  it('groups configured contexts into an ICU select, with plurals inside', () => {
+    const raw = {
+      friend: 'A friend',
+      friend_male: 'A boyfriend',
+      friend_female_one: 'A girlfriend',
+      friend_female_other: '{{count}} girlfriends'
+    };
+    const { entries, output } = roundTrip(raw, i18next);
+    expect(Object.keys(entries)).toEqual(['friend']);
+    expect(entries.friend.value).toBe(
+      '{context, select, male{A boyfriend} female{{count, plural, one{A girlfriend} other{{count} girlfriends}}} other{A friend}}'
+    );
+    expect(output).toEqual(raw);
+  });
+
+  it('keeps snake_case keys that are not contexts as they are', () => {
+    const raw = { button: 'Button', button_save: 'Save', save: 'Save', save_button: 'Save button', save_button_label: 'Label' };
+    const { entries, output } = roundTrip(raw, i18next);
+    expect(Object.keys(entries)).toEqual(Object.keys(raw));
+    expect(output).toEqual(raw);
+  });
+
+  it('keeps a variant of a variant, or one without a base, as an ordinary key', () => {
+    const raw = { friend: 'A friend', friend_male: 'A boyfriend', friend_male_female: 'Odd', partner_female: 'A partner' };
+    const { entries, output } = roundTrip(raw, { mode: 'i18next', contexts: ['male', 'female'] });
+    expect(entries.friend.value).toBe('{context, select, male{A boyfriend} other{A friend}}');
+    expect(entries.friend_male_female.value).toBe('Odd');
+    expect(entries.partner_female.value).toBe('A partner');
+    expect(output).toEqual(raw);
+  });
+
+  it('leaves plural forms ungrouped when the key also has a plain value or no other form', () => {
+    const raw = { item: 'Item', item_one: 'One item', item_other: 'Items', step_one: 'Step one' };
+    const { entries, output } = roundTrip(raw, i18next);
+    expect(Object.keys(entries)).toEqual(Object.keys(raw));
+    expect(output).toEqual(raw);
+  });
+
+  it('uses the configured separators', () => {
+    const raw = { item: { 'count|one': 'One', 'count|other': 'Many' } };
+    const options: JsonOptions = { mode: 'i18next', keySeparator: '/', pluralSeparator: '|' };
+    const { entries, output } = roundTrip(raw, options);
+    expect(entries['item/count'].value).toBe('{count, plural, one{One} other{Many}}');
+    expect(output).toEqual(raw);
+  });
+});
@@ -0,0 +1,208 @@
+import { JsonValue, LocaleEntry, LocalzConfig } from '../../types';
+import { ICUPlural, PLURAL_CATEGORIES, PluralKind } from '../../utils/icu-plural';
+
+type JsonOptions = NonNullable<LocalzConfig['jsonOptions']>;
+type JsonMode = NonNullable<JsonOptions['mode']>;
+type JsonObject = { [key: string]: JsonValue };
+
+export class I18nextJsonFormat {
+  static readonly PLURAL_ARGUMENT = 'count';
+  static readonly CONTEXT_ARGUMENT = 'context';
+
+  static resolveMode(raw: JsonObject, options: JsonOptions = {}): JsonMode {
+    if (options.mode) return options.mode;
+    return Object.values(raw || {}).some(value => typeof value === 'object' && value !== null) ? 'nested' : 'flat';
+  }
+
+  // In i18next mode, `item_one`/`item_other` become one `item` entry holding an
+  // ICU plural, and `friend_male`/`friend_female` next to `friend` become one
+  // `friend` entry holding an ICU select on `context` when `male` and `female`
+  // are listed in jsonOptions.contexts.
+  static parse(raw: JsonObject, options: JsonOptions = {}): Record<string, LocaleEntry> {
+    const values = this.flatten(raw, options.keySeparator ?? '.');
+    const messages = this.resolveMode(raw, options) === 'i18next'
+      ? this.group(values, options)
+      : values;
+
+    const entries: Record<string, LocaleEntry> = {};
+    for (const [key, value] of Object.entries(messages)) {
+      entries[key] = { key, value };
+    }
+    return entries;
+  }
+
+  static serialize(entries: LocaleEntry[], raw: JsonObject, options: JsonOptions = {}): JsonObject | JsonValue[] {
+    const mode = this.resolveMode(raw, options);
+    const values: Record<string, string> = {};
+
+    for (const entry of entries) {
+      if (mode === 'i18next') {
+        this.expand(entry.key, entry.value, options, values);
+      } else {
+        values[entry.key] = entry.value;
+      }
+    }
+
+    return mode === 'flat' ? values : this.unflatten(values, options.keySeparator ?? '.');
+  }
+
+  static flatten(raw: JsonObject, separator: string): Record<string, string> {
+    const values: Record<string, string> = {};
+
+    const walk = (node: JsonObject | JsonValue[], prefix: string) => {
+      for (const [key, value] of Object.entries(node)) {
+        const fullKey = prefix ? `${prefix}${separator}${key}` : key;
+        if (typeof value === 'object' && value !== null) {
+          walk(value, fullKey);
+        } else {
+          values[fullKey] = value === null ? '' : String(value);
+        }
+      }
+    };
+
+    walk(raw, '');
+    return values;
+  }
+
+  static unflatten(values: Record<string, string>, separator: string): JsonObject | JsonValue[] {
+    const output: JsonObject = {};
+
+    for (const [key, value] of Object.entries(values)) {
+      const parts = separator ? key.split(separator) : [key];
+      let current = output;
+      for (const part of parts.slice(0, -1)) {
+        if (typeof current[part] !== 'object' || current[part] === null) {
+          current[part] = {};
+        }
+        current = current[part] as JsonObject;
+      }
+      current[parts[parts.length - 1]] = value;
+    }
+
+    return this.restoreArrays(output);
+  }
+
+  private static group(values: Record<string, string>, options: JsonOptions): Record<string, string> {
+    const pluralSeparator = options.pluralSeparator ?? '_';
+    const contextSeparator = options.contextSeparator ?? '_';
+    const suffix = new RegExp(`^(.+?)(${this.escapeRegExp(pluralSeparator)}ordinal)?${this.escapeRegExp(pluralSeparator)}(${PLURAL_CATEGORIES.join('|')})$`);
+
+    // Plural forms first: i18next always requires the _other form, so keys
+    // like `step_one` without a matching `step_other` stay ordinary keys, as
+    // do the forms of a key that also has a plain value
+    const messages = new Map<string, string>();
+    const plurals = new Map<string, { kind: PluralKind; forms: Record<string, string> }>();
+    for (const [key, value] of Object.entries(values)) {
+      const match = key.match(suffix);
+      const base = match ? match[1] + (match[2] || '') : '';
+      if (!match || values[`${base}${pluralSeparator}other`] === undefined || values[base] !== undefined) {
+        messages.set(key, value);
+        continue;
+      }
+
+      if (!plurals.has(base)) {
+        plurals.set(base, { kind: match[2] ? 'selectordinal' : 'plural', forms: {} });
+        messages.set(base, '');
+      }
+      plurals.get(base)!.forms[match[3]] = this.toICU(value);
+    }
+    for (const [base, plural] of plurals) {
+      messages.set(base, ICUPlural.build(this.PLURAL_ARGUMENT, plural.forms, plural.kind));
+    }
+
+    // Then contexts: `friend_male` is a variant of `friend` only when `male`
+    // is a configured context and `friend` exists. A variant of a variant
+    // stays an ordinary key, since i18next applies one context per lookup.
+    const variants = new Map<string, { base: string; context: string }>();
+    for (const key of messages.keys()) {
+      const context = (options.contexts || []).find(value => key.endsWith(`${contextSeparator}${value}`));
+      if (context === undefined || plurals.get(key)?.kind === 'selectordinal') continue;
+      const base = key.slice(0, key.length - contextSeparator.length - context.length);
+      if (base && messages.has(base)) variants.set(key, { base, context });
+    }
+
+    const leaf = (key: string) => plurals.has(key) ? messages.get(key)! : this.toICU(messages.get(key)!);
+    const grouped: Record<string, string> = {};
+    const contexts = new Map<string, Record<string, string>>();
+    for (const [key, value] of messages) {
+      const variant = variants.get(key);
+      if (variant && !variants.has(variant.base)) {
+        contexts.set(variant.base, { ...contexts.get(variant.base), [variant.context]: leaf(key) });
+        continue;
+      }
+      grouped[key] = value;
+    }
+
+    for (const [base, forms] of contexts) {
+      grouped[base] = ICUPlural.buildSelect(this.CONTEXT_ARGUMENT, { ...forms, other: leaf(base) });
+    }
+
+    return grouped;
+  }
+
+  private static expand(key: string, value: string, options: JsonOptions, values: Record<string, string>): void {
+    const contextSeparator = options.contextSeparator ?? '_';
+    const select = ICUPlural.parseSelect(value);
+
+    if (select && select.argument === this.CONTEXT_ARGUMENT) {
+      const { other, ...variants } = select.forms;
+      if (other !== undefined) this.expandPlural(key, other, options, values);
+      for (const [context, body] of Object.entries(variants)) {
+        this.expandPlural(`${key}${contextSeparator}${context}`, body, options, values);
+      }
+      return;
+    }
+
+    const plural = ICUPlural.parse(value);
+    if (plural && plural.argument === this.PLURAL_ARGUMENT) {
+      this.expandPlural(key, value, options, values);
+    } else {
+      values[key] = value;
+    }
+  }
+
+  private static expandPlural(key: string, value: string, options: JsonOptions, values: Record<string, string>): void {
+    const pluralSeparator = options.pluralSeparator ?? '_';
+    const plural = ICUPlural.parse(value);
+
+    if (!plural || plural.argument !== this.PLURAL_ARGUMENT) {
+      values[key] = this.toI18next(value);
+      return;
+    }
+
+    for (const [category, body] of Object.entries(plural.forms)) {
+      if ((PLURAL_CATEGORIES as readonly string[]).includes(category)) {
+        values[`${key}${pluralSeparator}${category}`] = this.toI18next(body);
+      }
+    }
+  }
+
+  // i18next interpolates with {{name}}; inside ICU blocks that becomes {name}
+  private static toICU(value: string): string {
+    return value.replace(/\{\{\s*([^{}]+?)\s*\}\}/g, '{$1}');
+  }
+
+  private static toI18next(value: string): string {
+    return value.replace(/\{\s*([^{}]+?)\s*\}/g, '{{$1}}');
+  }
+
+  // Objects whose keys are exactly 0..n-1 were arrays before flattening.
+  // Only unflatten's plain objects are passed in.
+  private static restoreArrays(node: JsonObject): JsonObject | JsonValue[] {
+    for (const [key, value] of Object.entries(node)) {
+      if (typeof value === 'object' && value !== null) {
+        node[key] = this.restoreArrays(value as JsonObject);
+      }
+    }
+
+    const keys = Object.keys(node);
+    if (keys.length > 0 && keys.every((key, index) => key === String(index))) {
+      return keys.map(key => node[key]);
+    }
+    return node;
+  }
+
+  private static escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+}
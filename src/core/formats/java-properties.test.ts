@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { JavaPropertiesFormat } from './java-properties';
+import { LocaleFile } from '../../types';
+
+function localeFile(content: string): LocaleFile {
+  const { entries, raw } = JavaPropertiesFormat.parse(content);
+  return { locale: 'fr', path: 'Messages_fr.properties', format: 'properties', entries, raw };
+}
+
+describe('JavaPropertiesFormat', () => {
+  it('reads separators, escapes, continuations and comments', () => {
+    const { entries } = localeFile([
+      '# Greeting on the home page',
+      'greeting = Bonjour {0}',
+      'farewell:Au revoir',
+      'spaced\\ key value',
+      'long = first \\',
+      '       second',
+      'escaped = caf\\u00e9\\tand\\nnew line',
+      '! bang comments are skipped too',
+      'path = C:\\\\temp'
+    ].join('\n'));
+
+    expect(entries.greeting).toEqual({ key: 'greeting', value: 'Bonjour {0}', description: 'Greeting on the home page' });
+    expect(entries.farewell.value).toBe('Au revoir');
+    expect(entries['spaced key'].value).toBe('value');
+    expect(entries.long.value).toBe('first second');
+    expect(entries.escaped.value).toBe('café\tand\nnew line');
+    expect(entries.path.value).toBe('C:\\temp');
+  });
+
+  it('round-trips a file in its own style', () => {
+    const content = '# Greeting\ngreeting=Bonjour {0}\nkey\\=with\\:separators=\\ leading space\n';
+    expect(JavaPropertiesFormat.serialize(localeFile(content))).toBe(content);
+  });
+
+  it('keeps files that escape every non-ASCII character escaped', () => {
+    const escaped = localeFile('title=Caf\\u00e9\n');
+    expect(escaped.entries.title.value).toBe('Café');
+    expect(JavaPropertiesFormat.serialize(escaped)).toBe('title=Caf\\u00e9\n');
+    expect(JavaPropertiesFormat.serialize(localeFile('title=Café\n'))).toBe('title=Café\n');
+  });
+
+  it('takes the locale from the file name', () => {
+    expect(JavaPropertiesFormat.extractLocale('Messages.properties', 'en')).toBe('en');
+    expect(JavaPropertiesFormat.extractLocale('Messages_fr.properties', 'en')).toBe('fr');
+    expect(JavaPropertiesFormat.extractLocale('Messages_fr_CA.properties', 'en')).toBe('fr_CA');
+    expect(JavaPropertiesFormat.extractLocale('Messages_sr_Latn_RS.properties', 'en')).toBe('sr_Latn_RS');
+  });
+});
@@ -0,0 +1,136 @@
+import * as path from 'path';
+import { LocaleEntry, LocaleFile } from '../../types';
+import { LocaleTag } from '../../utils/locale-tag';
+
+export class JavaPropertiesFormat {
+  static parse(content: string): { entries: Record<string, LocaleEntry>; raw: Record<string, unknown> } {
+    const entries: Record<string, LocaleEntry> = {};
+    const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+    let comments: string[] = [];
+
+    for (let i = 0; i < lines.length; i++) {
+      let line = lines[i].replace(/^\s+/, '');
+
+      if (!line) {
+        comments = [];
+        continue;
+      }
+
+      if (line.startsWith('#') || line.startsWith('!')) {
+        comments.push(line.slice(1).replace(/^ /, ''));
+        continue;
+      }
+
+      // A line ending in an odd number of backslashes continues on the next line
+      while (/(^|[^\\])(\\\\)*\\$/.test(line) && i + 1 < lines.length) {
+        line = line.slice(0, -1) + lines[++i].replace(/^\s+/, '');
+      }
+
+      const { key, value } = this.splitLine(line);
+      entries[key] = {
+        key,
+        value,
+        ...(comments.length > 0 && { description: comments.join('\n') })
+      };
+      comments = [];
+    }
+
+    return {
+      entries,
+      raw: {
+        // Files written by native2ascii-era tooling keep everything ASCII
+        escapeUnicode: /\\u[0-9a-fA-F]{4}/.test(content) && !/[\u0080-\uffff]/.test(content)
+      }
+    };
+  }
+
+  static serialize(localeFile: LocaleFile): string {
+    const escapeUnicode = Boolean(localeFile.raw?.escapeUnicode);
+    const blocks = Object.values(localeFile.entries).map(entry => {
+      const lines: string[] = [];
+      for (const comment of entry.description ? entry.description.split('\n') : []) {
+        lines.push(comment ? `# ${comment}` : '#');
+      }
+      lines.push(`${this.escape(entry.key, true, escapeUnicode)}=${this.escape(entry.value, false, escapeUnicode)}`);
+      return lines.join('\n');
+    });
+
+    return blocks.join('\n') + '\n';
+  }
+
+  // Messages.properties → default locale, Messages_fr.properties → fr, Messages_fr_CA.properties → fr_CA,
+  // Messages_sr_Latn_RS.properties → sr_Latn_RS
+  static extractLocale(filePath: string, defaultLocale: string): string {
+    const basename = path.basename(filePath, path.extname(filePath));
+    const separator = basename.indexOf('_');
+    if (separator === -1) return defaultLocale;
+    return LocaleTag.fromName(basename.slice(separator + 1)) || defaultLocale;
+  }
+
+  private static splitLine(line: string): { key: string; value: string } {
+    let i = 0;
+    let key = '';
+
+    while (i < line.length) {
+      const char = line[i];
+      if (char === '\\') {
+        key += line.slice(i, i + 2);
+        i += 2;
+        continue;
+      }
+      if (char === '=' || char === ':' || /\s/.test(char)) break;
+      key += char;
+      i++;
+    }
+
+    // Separator: optional whitespace, at most one of = or :, optional whitespace
+    while (i < line.length && /\s/.test(line[i])) i++;
+    if (line[i] === '=' || line[i] === ':') i++;
+    while (i < line.length && /\s/.test(line[i])) i++;
+
+    return {
+      key: this.unescape(key),
+      value: this.unescape(line.slice(i))
+    };
+  }
+
+  private static unescape(text: string): string {
+    return text.replace(/\\(u[0-9a-fA-F]{4}|.)/g, (_, sequence: string) => {
+      switch (sequence[0]) {
+        case 'u':
+          return sequence.length === 5 ? String.fromCharCode(parseInt(sequence.slice(1), 16)) : sequence;
+        case 't':
+          return '\t';
+        case 'n':
+          return '\n';
+        case 'r':
+          return '\r';
+        case 'f':
+          return '\f';
+        default:
+          return sequence;
+      }
+    });
+  }
+
+  private static escape(text: string, isKey: boolean, escapeUnicode: boolean): string {
+    let escaped = text
+      .replace(/\\/g, '\\\\')
+      .replace(/\t/g, '\\t')
+      .replace(/\n/g, '\\n')
+      .replace(/\r/g, '\\r')
+      .replace(/\f/g, '\\f');
+
+    if (isKey) {
+      escaped = escaped.replace(/([=: #!])/g, '\\$1');
+    } else {
+      escaped = escaped.replace(/^([ #!])/, '\\$1');
+    }
+
+    if (escapeUnicode) {
+      escaped = escaped.replace(/[\u0080-\uffff]/g, char => `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`);
+    }
+
+    return escaped;
+  }
+}
@@ -0,0 +1,97 @@
+import { JsonValue, LocaleEntry, LocaleFile, LocalzConfig } from '../../types';
+import { ARBParser } from '../arb-parser';
+import { I18nextJsonFormat } from './i18next-json';
+import { JsonPatcher } from '../../utils/json-patcher';
+
+type JsonObject = { [key: string]: JsonValue };
+
+// Flat JSON and ARB; nested and i18next JSON are handled by I18nextJsonFormat
+export class JsonFormat {
+  static parse(content: string, format: 'arb' | 'json', config: LocalzConfig): { entries: Record<string, LocaleEntry>; raw: Record<string, unknown> } {
+    const raw: JsonObject = JSON.parse(content);
+    const entries = format === 'json' && I18nextJsonFormat.resolveMode(raw, config.jsonOptions) !== 'flat'
+      ? I18nextJsonFormat.parse(raw, config.jsonOptions)
+      : this.parseEntries(raw);
+    return { entries, raw };
+  }
+
+  static serialize(localeFile: LocaleFile, existing: string | null, config: LocalzConfig): string {
+    // ARB global attributes (@@locale, @@last_modified, @@x-*) are carried over as-is
+    const output: JsonObject = localeFile.format === 'arb' ? ARBParser.globalAttributes(localeFile.raw) : {};
+
+    const keys = Object.keys(localeFile.entries);
+    if (config.preferOrder === 'alphabetical') {
+      keys.sort();
+    }
+
+    if (localeFile.format === 'json' && I18nextJsonFormat.resolveMode(localeFile.raw, config.jsonOptions) !== 'flat') {
+      const entries = keys.map(key => localeFile.entries[key]);
+      return this.write(I18nextJsonFormat.serialize(entries, localeFile.raw, config.jsonOptions), existing);
+    }
+
+    for (const key of keys) {
+      const entry = localeFile.entries[key];
+      output[key] = entry.value;
+
+      // Add metadata for ARB files
+      if (localeFile.format === 'arb' && (entry.metadata || entry.description || entry.placeholders)) {
+        const metadata: any = {};
+        if (entry.description) metadata.description = entry.description;
+        if (entry.placeholders) metadata.placeholders = entry.placeholders;
+        if (entry.metadata) Object.assign(metadata, entry.metadata);
+
+        if (Object.keys(metadata).length > 0) {
+          output[`@${key}`] = metadata;
+        }
+      }
+    }
+
+    const content = this.write(output, existing);
+
+    // Only bump the timestamp when something else changed, so unchanged files stay untouched
+    if (localeFile.format === 'arb' && config.arbOptions?.updateLastModified && content !== existing) {
+      return this.write(ARBParser.withLastModified(output), existing);
+    }
+    return content;
+  }
+
+  // Patches the file on disk when there is one so unchanged keys keep their exact formatting
+  private static write(output: JsonValue, existing: string | null): string {
+    if (existing !== null) {
+      try {
+        return JsonPatcher.patch(existing, output);
+      } catch {
+        // Not valid JSON any more; fall back to a fresh rendering
+      }
+    }
+    return JSON.stringify(output, null, 2) + '\n';
+  }
+
+  private static parseEntries(raw: JsonObject): Record<string, LocaleEntry> {
+    const entries: Record<string, LocaleEntry> = {};
+    const metadataPrefix = '@';
+
+    for (const [key, value] of Object.entries(raw)) {
+      if (key.startsWith(metadataPrefix)) continue;
+      if (key.startsWith('@@')) continue; // Skip ARB locale markers
+
+      const entry: LocaleEntry = {
+        key,
+        value: String(value)
+      };
+
+      // Check for ARB-style metadata
+      const metadataKey = `${metadataPrefix}${key}`;
+      const metadata = raw[metadataKey];
+      if (metadata && typeof metadata === 'object' && !Array.isArray(metadata)) {
+        entry.metadata = metadata;
+        entry.description = typeof metadata.description === 'string' ? metadata.description : undefined;
+        entry.placeholders = metadata.placeholders as LocaleEntry['placeholders'];
+      }
+
+      entries[key] = entry;
+    }
+
+    return entries;
+  }
+}
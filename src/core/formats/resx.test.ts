@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { ResxFormat } from './resx';
+import { LocaleFile } from '../../types';
+
+// The header Visual Studio writes, trimmed: its comment shows example <data> elements
+const header = `<?xml version="1.0" encoding="utf-8"?>
+<root>
+  <!--
+    Microsoft ResX Schema
+
+    Example:
+
+    <data name="Name1"><value>this is my long string</value><comment>this is a comment</comment></data>
+    <data name="Color1" type="System.Drawing.Color, System.Drawing">Blue</data>
+  -->
+  <xsd:schema id="root" xmlns="" xmlns:xsd="http://www.w3.org/2001/XMLSchema">
+    <xsd:element name="root" msdata:IsDataSet="true">
+      <xsd:element name="data">
+        <xsd:attribute name="name" type="xsd:string" use="required" msdata:Ordinal="1" />
+      </xsd:element>
+    </xsd:element>
+  </xsd:schema>
+  <resheader name="resmimetype">
+    <value>text/microsoft-resx</value>
+  </resheader>
+`;
+
+const resx = `${header}  <data name="Greeting" xml:space="preserve">
+    <value>Hello &lt;b&gt;{0}&lt;/b&gt; &amp; welcome</value>
+    <comment>Shown on the home page</comment>
+  </data>
+  <data name="Empty" xml:space="preserve">
+    <value></value>
+  </data>
+  <data name="Logo" type="System.Resources.ResXFileRef, System.Windows.Forms">
+    <value>logo.png;System.Byte[], mscorlib</value>
+  </data>
+</root>
+`;
+
+function localeFile(content: string): LocaleFile {
+  const { entries, raw } = ResxFormat.parse(content);
+  return { locale: 'en', path: 'Strings.resx', format: 'resx', entries, raw };
+}
+
+describe('ResxFormat', () => {
+  it('reads string resources and ignores the examples in the header comment', () => {
+    const { entries } = localeFile(resx);
+    expect(Object.keys(entries)).toEqual(['Greeting', 'Empty']);
+    expect(entries.Greeting).toEqual({
+      key: 'Greeting',
+      value: 'Hello <b>{0}</b> & welcome',
+      description: 'Shown on the home page'
+    });
+    expect(entries.Empty.value).toBe('');
+  });
+
+  it('round-trips the header, strings and non-string resources', () => {
+    expect(ResxFormat.serialize(localeFile(resx))).toBe(resx);
+  });
+
+  it('writes the standard header for a new file', () => {
+    const file = localeFile(resx);
+    const content = ResxFormat.serialize({ ...file, raw: {} });
+    expect(content).toContain('<value>text/microsoft-resx</value>');
+    expect(ResxFormat.parse(content).entries).toEqual(file.entries);
+  });
+
+  it('takes the culture from the file name', () => {
+    expect(ResxFormat.extractLocale('Resources/Strings.resx', 'en')).toBe('en');
+    expect(ResxFormat.extractLocale('Resources/Strings.fr.resx', 'en')).toBe('fr');
+    expect(ResxFormat.extractLocale('Resources/Strings.fr-CA.resx', 'en')).toBe('fr_CA');
+  });
+});
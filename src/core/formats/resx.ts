@@ -0,0 +1,118 @@
+import * as path from 'path';
+import { XMLParser } from 'fast-xml-parser';
+import { LocaleEntry, LocaleFile } from '../../types';
+import { LocaleTag } from '../../utils/locale-tag';
+
+const DATA_ELEMENT = /<data\b[^>]*?(?:\/>|>[\s\S]*?<\/data>)/g;
+
+const COMMENT = /<!--[\s\S]*?-->/g;
+
+const DEFAULT_HEADER = `<?xml version="1.0" encoding="utf-8"?>
+<root>
+  <resheader name="resmimetype">
+    <value>text/microsoft-resx</value>
+  </resheader>
+  <resheader name="version">
+    <value>2.0</value>
+  </resheader>
+  <resheader name="reader">
+    <value>System.Resources.ResXResourceReader, System.Windows.Forms, Version=4.0.0.0, Culture=neutral, PublicKeyToken=b77a5c561934e089</value>
+  </resheader>
+  <resheader name="writer">
+    <value>System.Resources.ResXResourceWriter, System.Windows.Forms, Version=4.0.0.0, Culture=neutral, PublicKeyToken=b77a5c561934e089</value>
+  </resheader>
+`;
+
+export class ResxFormat {
+  // The schema and resheader preamble, plus any non-string resources (images,
+  // file references), are kept verbatim; only string <data> elements become entries.
+  static parse(content: string): { entries: Record<string, LocaleEntry>; raw: Record<string, unknown> } {
+    const parser = new XMLParser({
+      ignoreAttributes: false,
+      attributeNamePrefix: '',
+      parseTagValue: false,
+      parseAttributeValue: false,
+      trimValues: false
+    });
+
+    // Comments are blanked out before looking for <data>, keeping offsets,
+    // since the standard Visual Studio header comment has example elements
+    const uncommented = content.replace(COMMENT, comment => ' '.repeat(comment.length));
+    const matches = Array.from(uncommented.matchAll(DATA_ELEMENT));
+
+    const entries: Record<string, LocaleEntry> = {};
+    const preserved: string[] = [];
+
+    for (const match of matches) {
+      const element = content.slice(match.index, match.index! + match[0].length);
+      const data = parser.parse(element).data;
+      if (!data || !data.name) continue;
+
+      if (data.type || data.mimetype) {
+        preserved.push(element);
+        continue;
+      }
+
+      entries[data.name] = {
+        key: data.name,
+        value: this.textOf(data.value),
+        ...(data.comment !== undefined && { description: this.textOf(data.comment) })
+      };
+    }
+
+    const firstData = matches.length > 0 ? matches[0].index! : -1;
+    const closing = uncommented.lastIndexOf('</root>');
+
+    return {
+      entries,
+      raw: {
+        header: firstData !== -1 ? content.slice(0, firstData) : content.slice(0, closing === -1 ? undefined : closing),
+        preserved
+      }
+    };
+  }
+
+  static serialize(localeFile: LocaleFile): string {
+    const header: string = localeFile.raw?.header || DEFAULT_HEADER;
+    const lines: string[] = [];
+
+    for (const entry of Object.values(localeFile.entries)) {
+      lines.push(`  <data name="${this.escape(entry.key, true)}" xml:space="preserve">`);
+      lines.push(`    <value>${this.escape(entry.value)}</value>`);
+      if (entry.description) {
+        lines.push(`    <comment>${this.escape(entry.description)}</comment>`);
+      }
+      lines.push('  </data>');
+    }
+
+    for (const element of localeFile.raw?.preserved || []) {
+      lines.push(`  ${element}`);
+    }
+
+    return `${header.replace(/[ \t]*$/, '')}${lines.join('\n')}\n</root>\n`;
+  }
+
+  // Resources.resx → default locale, Resources.fr.resx → fr, Resources.fr-CA.resx → fr_CA
+  static extractLocale(filePath: string, defaultLocale: string): string {
+    const basename = path.basename(filePath, path.extname(filePath));
+    const culture = basename.split('.').pop()!;
+    if (basename.includes('.') && LocaleTag.isValid(culture)) {
+      return LocaleTag.canonicalize(culture);
+    }
+    return defaultLocale;
+  }
+
+  private static textOf(node: unknown): string {
+    if (node === undefined || node === null) return '';
+    if (typeof node === 'object') return String((node as Record<string, unknown>)['#text'] ?? '');
+    return String(node);
+  }
+
+  private static escape(value: string, attribute = false): string {
+    const escaped = value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+    return attribute ? escaped.replace(/"/g, '&quot;') : escaped;
+  }
+}
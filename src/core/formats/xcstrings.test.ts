@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { StringCatalog, XCStringsFormat } from './xcstrings';
+import { LocaleFile } from '../../types';
+
+const catalog = (): StringCatalog => ({
+  sourceLanguage: 'en',
+  strings: {
+    Cancel: {
+      localizations: {
+        de: { stringUnit: { state: 'translated', value: 'Abbrechen' } }
+      }
+    },
+    files: {
+      comment: 'File count',
+      localizations: {
+        en: {
+          variations: {
+            plural: {
+              one: { stringUnit: { state: 'translated', value: '%lld file' } },
+              other: { stringUnit: { state: 'translated', value: '%lld files' } }
+            }
+          }
+        }
+      }
+    }
+  },
+  version: '1.0'
+});
+
+function localeFile(source: StringCatalog, locale: string): LocaleFile {
+  const { entries, raw } = XCStringsFormat.parse(source, locale);
+  return { locale, path: 'Localizable.xcstrings', format: 'xcstrings', entries, raw };
+}
+
+describe('XCStringsFormat', () => {
+  it('lists every locale in the catalog', () => {
+    expect(XCStringsFormat.locales(catalog()).sort()).toEqual(['de', 'en']);
+  });
+
+  it('falls back to the key for source strings without a localization', () => {
+    const { entries } = localeFile(catalog(), 'en');
+    expect(entries.Cancel.value).toBe('Cancel');
+    expect(entries.files.value).toBe('{count, plural, one{%lld file} other{%lld files}}');
+    expect(entries.files.description).toBe('File count');
+  });
+
+  it('reads a target locale with its state', () => {
+    const { entries } = localeFile(catalog(), 'de');
+    expect(entries.Cancel).toMatchObject({ value: 'Abbrechen', metadata: { state: 'translated' } });
+    expect(entries.files).toBeUndefined();
+  });
+
+  it('round-trips a locale unchanged', () => {
+    const original = catalog();
+    const merged = XCStringsFormat.merge(catalog(), localeFile(catalog(), 'de'));
+    expect(merged).toEqual(original);
+  });
+
+  it('writes new translations, plurals included', () => {
+    const file = localeFile(catalog(), 'de');
+    file.entries.files = { key: 'files', value: '{count, plural, one{%lld Datei} other{%lld Dateien}}' };
+    const merged = XCStringsFormat.merge(catalog(), file);
+    expect(localeFile(merged, 'de').entries.files.value).toBe(file.entries.files.value);
+    expect(merged.strings.files.localizations?.en).toEqual(catalog().strings.files.localizations?.en);
+  });
+
+  it('writes the Xcode spacing before colons', () => {
+    expect(XCStringsFormat.serialize(catalog())).toContain('"sourceLanguage" : "en"');
+  });
+});
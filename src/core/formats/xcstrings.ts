@@ -0,0 +1,206 @@
+import { LocaleEntry, LocaleFile } from '../../types';
+import { ICUPlural, PLURAL_CATEGORIES } from '../../utils/icu-plural';
+import { LocaleTag } from '../../utils/locale-tag';
+
+interface StringUnit {
+  state?: string;
+  value: string;
+}
+
+interface Localization {
+  stringUnit?: StringUnit;
+  variations?: Record<string, Record<string, Localization>>;
+  substitutions?: Record<string, { argNum?: number; formatSpecifier?: string; variations?: Localization['variations'] }>;
+}
+
+interface CatalogString {
+  comment?: string;
+  extractionState?: string;
+  shouldTranslate?: boolean;
+  localizations?: Record<string, Localization>;
+}
+
+export interface StringCatalog {
+  sourceLanguage: string;
+  strings: Record<string, CatalogString>;
+  version?: string;
+}
+
+export class XCStringsFormat {
+  static readonly PLURAL_ARGUMENT = 'count';
+
+  static normalizeLocale(catalogLocale: string): string {
+    return LocaleTag.canonicalize(catalogLocale);
+  }
+
+  static locales(catalog: StringCatalog): string[] {
+    const locales = new Set<string>([catalog.sourceLanguage]);
+    for (const definition of Object.values(catalog.strings || {})) {
+      for (const locale of Object.keys(definition.localizations || {})) {
+        locales.add(locale);
+      }
+    }
+    return Array.from(locales);
+  }
+
+  // Extracts a single locale's view of the catalog. Strings without a
+  // source-language localization fall back to the key, as Xcode does.
+  static parse(catalog: StringCatalog, locale: string): { entries: Record<string, LocaleEntry>; raw: Record<string, unknown> } {
+    const catalogLocale = this.findCatalogLocale(catalog, locale);
+    const isSource = catalogLocale === catalog.sourceLanguage;
+    const entries: Record<string, LocaleEntry> = {};
+
+    for (const [key, definition] of Object.entries(catalog.strings || {})) {
+      const localization = definition.localizations?.[catalogLocale];
+      const value = localization ? this.readLocalization(localization) : (isSource ? key : undefined);
+      if (value === undefined) continue;
+
+      const metadata: Record<string, unknown> = {};
+      if (localization) {
+        const state = this.readState(localization);
+        if (state) metadata.state = state;
+      }
+      if (definition.extractionState) metadata.extractionState = definition.extractionState;
+      if (definition.shouldTranslate === false) metadata.translatable = false;
+
+      entries[key] = {
+        key,
+        value,
+        ...(definition.comment && { description: definition.comment }),
+        ...(Object.keys(metadata).length > 0 && { metadata })
+      };
+    }
+
+    return {
+      entries,
+      raw: { catalog, catalogLocale }
+    };
+  }
+
+  // Writes one locale back into the catalog. Localizations whose value did not
+  // change are left untouched so states and device variations survive.
+  static merge(catalog: StringCatalog, localeFile: LocaleFile): StringCatalog {
+    const catalogLocale = localeFile.raw?.catalogLocale || this.findCatalogLocale(catalog, localeFile.locale);
+    const isSource = catalogLocale === catalog.sourceLanguage;
+    catalog.strings = catalog.strings || {};
+
+    for (const [key, definition] of Object.entries(catalog.strings)) {
+      if (!localeFile.entries[key] && definition.localizations?.[catalogLocale]) {
+        delete definition.localizations[catalogLocale];
+      }
+    }
+
+    for (const entry of Object.values(localeFile.entries)) {
+      const definition = catalog.strings[entry.key] || (catalog.strings[entry.key] = {});
+      if (entry.description) definition.comment = entry.description;
+
+      const existing = definition.localizations?.[catalogLocale];
+      const currentValue = existing ? this.readLocalization(existing) : (isSource ? entry.key : undefined);
+      if (currentValue === entry.value) continue;
+
+      const state = entry.metadata?.state === 'needs_review' ? 'needs_review' : 'translated';
+      definition.localizations = definition.localizations || {};
+      definition.localizations[catalogLocale] = this.writeLocalization(entry.value, state, existing);
+    }
+
+    return catalog;
+  }
+
+  // Xcode writes `"key" : value` with a space before the colon
+  static serialize(catalog: StringCatalog): string {
+    return JSON.stringify(catalog, null, 2)
+      .replace(/^(\s*"(?:[^"\\]|\\.)*"): /gm, '$1 : ') + '\n';
+  }
+
+  private static findCatalogLocale(catalog: StringCatalog, locale: string): string {
+    return LocaleTag.find(this.locales(catalog), locale) || LocaleTag.toBCP47(locale);
+  }
+
+  private static readState(localization: Localization): string | undefined {
+    if (localization.stringUnit?.state) return localization.stringUnit.state;
+    const variants = Object.values(localization.variations || {})[0];
+    const first = variants && Object.values(variants)[0];
+    return first ? this.readState(first) : undefined;
+  }
+
+  private static readLocalization(localization: Localization): string {
+    const plural = localization.variations?.plural;
+    if (plural) {
+      return ICUPlural.build(this.PLURAL_ARGUMENT, this.readForms(plural));
+    }
+
+    const device = localization.variations?.device;
+    if (device && !localization.stringUnit) {
+      const fallback = device.other || Object.values(device)[0];
+      return fallback ? this.readLocalization(fallback) : '';
+    }
+
+    const value = localization.stringUnit?.value ?? '';
+    const substitutions = localization.substitutions;
+    if (!substitutions) return value;
+
+    return value.replace(/%#@([^@]+)@/g, (match, name: string) => {
+      const plural = substitutions[name]?.variations?.plural;
+      return plural ? ICUPlural.build(name, this.readForms(plural)) : match;
+    });
+  }
+
+  private static readForms(variants: Record<string, Localization>): Record<string, string> {
+    const forms: Record<string, string> = {};
+    for (const [category, variant] of Object.entries(variants)) {
+      forms[category] = variant.stringUnit?.value ?? '';
+    }
+    return forms;
+  }
+
+  private static writeLocalization(value: string, state: string, existing?: Localization): Localization {
+    const segments = ICUPlural.split(value);
+    const plurals = segments.filter((segment): segment is Exclude<typeof segment, string> => typeof segment !== 'string');
+
+    if (plurals.length === 0) {
+      const device = existing?.variations?.device;
+      if (device && !existing?.stringUnit) {
+        const target = device.other ? 'other' : Object.keys(device)[0];
+        return {
+          ...existing,
+          variations: {
+            ...existing!.variations,
+            device: { ...device, [target]: { stringUnit: { state, value } } }
+          }
+        };
+      }
+      return { stringUnit: { state, value } };
+    }
+
+    const pluralVariants = (forms: Record<string, string>) => {
+      const variants: Record<string, Localization> = {};
+      for (const [selector, body] of Object.entries(forms)) {
+        if ((PLURAL_CATEGORIES as readonly string[]).includes(selector)) {
+          variants[selector] = { stringUnit: { state, value: body } };
+        }
+      }
+      return variants;
+    };
+
+    const whole = segments.length === 1 ? plurals[0] : undefined;
+    if (whole && whole.argument === this.PLURAL_ARGUMENT && !existing?.substitutions?.[whole.argument]) {
+      return { variations: { plural: pluralVariants(whole.forms) } };
+    }
+
+    const substitutions: NonNullable<Localization['substitutions']> = {};
+    let format = '';
+    for (const segment of segments) {
+      if (typeof segment === 'string') {
+        format += segment;
+        continue;
+      }
+      format += `%#@${segment.argument}@`;
+      substitutions[segment.argument] = {
+        ...(existing?.substitutions?.[segment.argument] || { argNum: Object.keys(substitutions).length + 1, formatSpecifier: 'lld' }),
+        variations: { plural: pluralVariants(segment.forms) }
+      };
+    }
+
+    return { stringUnit: { state, value: format }, substitutions };
+  }
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { YamlFormat } from './yaml';
+import { LocaleFile, LocalzConfig } from '../../types';
+
+const config: LocalzConfig = {
+  flutterLocalesPath: 'config/locales',
+  sourceLocale: 'en',
+  targetLocales: ['es', 'pt_BR'],
+  doAutoFix: false,
+  translateMissing: false
+};
+
+function localeFile(content: string, locale: string, requested = false): LocaleFile {
+  const { entries, raw, locale: resolved } = YamlFormat.parse(content, locale, requested, config);
+  return { locale: resolved, path: `${locale}.yml`, format: 'yml', entries, raw };
+}
+
+describe('YamlFormat', () => {
+  it('strips a Rails locale root so keys match across locales', () => {
+    const en = localeFile('en:\n  welcome: Welcome\n  users:\n    title: Users\n', 'en');
+    const es = localeFile('es:\n  welcome: Bienvenido\n  users:\n    title: Usuarios\n', 'es');
+    expect(Object.keys(en.entries)).toEqual(['welcome', 'users.title']);
+    expect(Object.keys(es.entries)).toEqual(Object.keys(en.entries));
+  });
+
+  it('matches roots written with a hyphen and reads the root when the path has no locale', () => {
+    expect(localeFile('pt-BR:\n  hello: Olá\n', 'pt_BR').entries.hello.value).toBe('Olá');
+    const file = localeFile('es:\n  hello: Hola\n', 'unknown');
+    expect(file.locale).toBe('es');
+    expect(file.entries.hello.value).toBe('Hola');
+  });
+
+  it('reads files without a root and resolves merge keys', () => {
+    const { entries } = localeFile('defaults: &defaults\n  ok: OK\nbuttons:\n  <<: *defaults\n  cancel: Cancel\n', 'en');
+    expect(entries['buttons.ok'].value).toBe('OK');
+    expect(entries['buttons.cancel'].value).toBe('Cancel');
+  });
+
+  it('lists the locales of a file holding several roots', () => {
+    expect(YamlFormat.locales('en:\n  a: A\nes:\n  a: A\n', config)).toEqual(['en', 'es']);
+    expect(YamlFormat.locales('en:\n  a: A\n', config)).toBeNull();
+  });
+
+  it('re-adds the locale root when writing a new file', () => {
+    const file = localeFile('es:\n  welcome: Bienvenido\n', 'es');
+    file.entries['users.title'] = { key: 'users.title', value: 'Usuarios' };
+    expect(YamlFormat.serialize(file, null, config)).toBe('es:\n  welcome: Bienvenido\n  users:\n    title: Usuarios\n');
+  });
+
+  it('patches one locale of a multi-locale file and leaves the others alone', () => {
+    const content = '# Shared strings\nen:\n  welcome: Welcome # greeting\nes:\n  welcome: Bienvenido\n';
+    const es = localeFile(content, 'es', true);
+    es.entries.welcome.value = 'Hola';
+    expect(YamlFormat.serialize(es, content, config)).toBe('# Shared strings\nen:\n  welcome: Welcome # greeting\nes:\n  welcome: Hola\n');
+  });
+});
@@ -0,0 +1,128 @@
+import * as YAML from 'yaml';
+import * as lodash from 'lodash';
+import { JsonValue, LocaleEntry, LocaleFile, LocalzConfig } from '../../types';
+import { YamlPatcher } from '../../utils/yaml-patcher';
+import { LocaleTag } from '../../utils/locale-tag';
+
+type JsonObject = { [key: string]: JsonValue };
+
+export class YamlFormat {
+  // Documents of a multi-document file are merged; Rails files put each locale
+  // under its own root. Without a requested locale, a file whose roots do not
+  // include the path's locale is read as its first root.
+  static parse(content: string, locale: string, requested: boolean, config: LocalzConfig): {
+    entries: Record<string, LocaleEntry>;
+    raw: Record<string, unknown>;
+    locale: string;
+  } {
+    const documents = this.readDocuments(content);
+    const raw: Record<string, unknown> = documents.length > 1 ? lodash.merge({}, ...documents) : documents[0] || {};
+    const roots = this.localeRoots(raw, config);
+    if (!requested && roots.length > 0 && !roots.some(root => LocaleTag.canonicalize(root) === locale)) {
+      locale = LocaleTag.canonicalize(roots[0]);
+    }
+
+    return { entries: this.parseEntries(raw, locale, config), raw, locale };
+  }
+
+  // config/locales/all.yml may hold several Rails locale roots (en:, es:, ...);
+  // null for an ordinary single-locale file
+  static locales(content: string, config: LocalzConfig): string[] | null {
+    const roots = this.localeRoots(lodash.merge({}, ...this.readDocuments(content)), config);
+    return roots.length > 1 ? roots.map(root => LocaleTag.canonicalize(root)) : null;
+  }
+
+  static serialize(localeFile: LocaleFile, existing: string | null, config: LocalzConfig): string {
+    const output: JsonObject = {};
+
+    for (const [key, entry] of Object.entries(localeFile.entries)) {
+      const keyParts = key.split('.');
+      let current = output;
+
+      for (let i = 0; i < keyParts.length - 1; i++) {
+        if (!current[keyParts[i]]) {
+          current[keyParts[i]] = {};
+        }
+        current = current[keyParts[i]] as JsonObject;
+      }
+
+      const finalKey = keyParts[keyParts.length - 1];
+
+      if (entry.description || entry.context || entry.tags || entry.metadata) {
+        current[finalKey] = {
+          value: entry.value,
+          ...(entry.description && { description: entry.description }),
+          ...(entry.context && { context: entry.context }),
+          ...(entry.tags && { tags: entry.tags })
+        };
+      } else {
+        current[finalKey] = entry.value;
+      }
+    }
+
+    // Only this locale's root is patched in whatever is on disk, so other
+    // locales and documents in the same file are left alone
+    const root = this.localeRoots(localeFile.raw || {}, config).find(key => LocaleTag.canonicalize(key) === localeFile.locale);
+    const patched = existing !== null ? YamlPatcher.patch(existing, output, root) : null;
+    if (patched !== null) {
+      return patched;
+    }
+
+    return YAML.stringify(root === undefined ? output : { [root]: output }, { indent: 2 });
+  }
+
+  private static parseEntries(raw: Record<string, unknown>, locale: string, config: LocalzConfig): Record<string, LocaleEntry> {
+    const entries: Record<string, LocaleEntry> = {};
+    const root = this.localeRoots(raw, config).find(key => LocaleTag.canonicalize(key) === locale);
+
+    // Handle nested YAML structures
+    const flatten = (obj: Record<string, unknown>, prefix = ''): void => {
+      for (const [key, value] of Object.entries(obj)) {
+        const fullKey = prefix ? `${prefix}.${key}` : key;
+
+        if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+          // Check if it's a translation entry with metadata
+          const valueObj = value as Record<string, unknown>;
+          if (valueObj.value !== undefined) {
+            entries[fullKey] = {
+              key: fullKey,
+              value: String(valueObj.value),
+              description: typeof valueObj.description === 'string' ? valueObj.description : undefined,
+              context: typeof valueObj.context === 'string' ? valueObj.context : undefined,
+              tags: Array.isArray(valueObj.tags) ? valueObj.tags.map(String) : undefined,
+              metadata: valueObj
+            };
+          } else {
+            flatten(valueObj, fullKey);
+          }
+        } else {
+          entries[fullKey] = {
+            key: fullKey,
+            value: String(value)
+          };
+        }
+      }
+    };
+
+    flatten(root !== undefined ? raw[root] as Record<string, unknown> : raw);
+    return entries;
+  }
+
+  private static readDocuments(content: string): Record<string, unknown>[] {
+    // merge: true resolves `<<: *defaults` merge keys, which Rails locale files use heavily
+    const documents = YAML.parseAllDocuments(content, { merge: true });
+    return documents.map(document => {
+      if (document.errors.length > 0) throw document.errors[0];
+      return document.toJS() || {};
+    });
+  }
+
+  // Top-level keys naming a configured locale and holding a mapping, e.g. `en:` in a Rails file
+  private static localeRoots(raw: Record<string, unknown>, config: LocalzConfig): string[] {
+    const configured = [config.sourceLocale, ...config.targetLocales];
+    return Object.keys(raw).filter(key =>
+      LocaleTag.find(configured, key) !== undefined &&
+      typeof raw[key] === 'object' && raw[key] !== null && !Array.isArray(raw[key])
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { GenL10n } from './gen-l10n';
+import { Validator } from './validator';
+import { LocaleEntry, LocaleFile } from '../types';
+
+// ARB placeholder definitions carry more than LocaleEntry's type and example
+type ArbEntry = { value: string; placeholders?: Record<string, Record<string, string>> };
+
+function arb(locale: string, entries: Record<string, ArbEntry>): LocaleFile {
+  const file: LocaleFile = { locale, path: `l10n/app_${locale}.arb`, format: 'arb', entries: {}, raw: {} };
+  for (const [key, entry] of Object.entries(entries)) {
+    file.entries[key] = { key, ...entry } as LocaleEntry;
+  }
+  return file;
+}
+
+const template = arb('en', {
+  greeting: { value: 'Hello {name}' },
+  count: { value: '{n} items', placeholders: { n: { type: 'int' } } },
+  when: { value: 'On {date}', placeholders: { date: { type: 'DateTime', format: 'yMMMMd' } } },
+  price: { value: '{amount}', placeholders: { amount: { type: 'double', format: 'money' } } },
+  class: { value: 'Class' }
+});
+
+describe('GenL10n', () => {
+  it('reports template problems against the template', () => {
+    const issues = GenL10n.check(arb('de', { greeting: { value: 'Hallo {name}' } }), template);
+    expect(issues.map(issue => [issue.locale, issue.key, issue.severity])).toEqual([
+      ['en', 'greeting', 'warning'],
+      ['en', 'price', 'error'],
+      ['en', 'class', 'error']
+    ]);
+    expect(issues[0].message).toBe('Placeholder {name} not declared in @greeting.placeholders of app_en.arb');
+    expect(issues[1].message).toMatch(/format "money", which is not a NumberFormat constructor/);
+    expect(issues[2].message).toMatch(/"class" is a Dart keyword/);
+  });
+
+  it('checks names of keys only the target has', () => {
+    const issues = GenL10n.check(arb('de', { 'bad-key': { value: 'x' }, _private: { value: 'y' } }), arb('en', {}));
+    expect(issues.map(issue => [issue.locale, issue.key])).toEqual([['de', 'bad-key'], ['de', '_private']]);
+  });
+
+  it('checks DateTime formats', () => {
+    const custom = arb('en', {
+      a: { value: '{d}', placeholders: { d: { type: 'DateTime' } } },
+      b: { value: '{d}', placeholders: { d: { type: 'DateTime', format: 'yMd+jms' } } },
+      c: { value: '{d}', placeholders: { d: { type: 'DateTime', format: 'dd.MM', isCustomDateFormat: 'true' } } },
+      d: { value: '{d}', placeholders: { d: { type: 'DateTime', format: 'dd.MM' } } }
+    });
+    expect(GenL10n.check(arb('de', {}), custom).map(issue => issue.key)).toEqual(['a', 'd']);
+  });
+
+  it('lists template problems once across all target reports', () => {
+    const reports = new Validator(template, [
+      arb('de', { greeting: { value: 'Hallo {name}' } }),
+      arb('fr', { greeting: { value: 'Bonjour {name}' } })
+    ]).validate();
+
+    const genL10n = (locale: string) => reports.get(locale)!.issues.filter(issue => issue.type === 'genL10n').map(issue => issue.key);
+    expect(genL10n('de')).toEqual(['greeting', 'price', 'class']);
+    expect(genL10n('fr')).toEqual([]);
+  });
+});
@@ -0,0 +1,134 @@
+import * as path from 'path';
+import { LocaleFile, ValidationIssue } from '../types';
+import { ICUArguments } from '../utils/icu-arguments';
+
+// Words gen_l10n refuses as message names (kReservedWords in gen_l10n_types.dart)
+const DART_RESERVED_WORDS = new Set([
+  'abstract', 'as', 'assert', 'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue',
+  'covariant', 'default', 'deferred', 'do', 'dynamic', 'else', 'enum', 'export', 'extends', 'extension',
+  'external', 'factory', 'false', 'final', 'finally', 'for', 'Function', 'get', 'hide', 'if', 'implements',
+  'import', 'in', 'inout', 'interface', 'is', 'late', 'library', 'mixin', 'native', 'new', 'null', 'of', 'on',
+  'operator', 'out', 'part', 'patch', 'required', 'rethrow', 'return', 'set', 'show', 'source', 'static',
+  'super', 'switch', 'sync', 'this', 'throw', 'true', 'try', 'typedef', 'var', 'void', 'while', 'with', 'yield'
+]);
+
+const PLACEHOLDER_TYPES = ['String', 'Object', 'num', 'int', 'double', 'DateTime'];
+
+// DateFormat's named skeleton constructors
+const DATE_FORMATS = new Set([
+  'd', 'E', 'EEEE', 'LLL', 'LLLL', 'M', 'Md', 'MEd', 'MMM', 'MMMd', 'MMMEd', 'MMMM', 'MMMMd', 'MMMMEEEEd',
+  'QQQ', 'QQQQ', 'y', 'yM', 'yMd', 'yMEd', 'yMMM', 'yMMMd', 'yMMMEd', 'yMMMM', 'yMMMMd', 'yMMMMEEEEd',
+  'yQQQ', 'yQQQQ', 'H', 'Hm', 'Hms', 'j', 'jm', 'jms', 'jmv', 'jmz', 'jv', 'jz', 'm', 'ms', 's'
+]);
+
+// NumberFormat constructors gen_l10n knows how to call
+const NUMBER_FORMATS = new Set([
+  'compact', 'compactCurrency', 'compactSimpleCurrency', 'compactLong', 'currency', 'decimalPattern',
+  'decimalPatternDigits', 'decimalPercentPattern', 'percentPattern', 'scientificPattern', 'simpleCurrency'
+]);
+
+type PlaceholderDefinition = { type?: string; format?: string; isCustomDateFormat?: string | boolean };
+
+// Checks for ARB content that `flutter gen-l10n` would reject. Placeholder
+// declarations are read from the template, as gen_l10n does. Problems in the
+// template itself are reported with the template's locale, which the
+// Validator lists once rather than under every target.
+export class GenL10n {
+  static check(targetFile: LocaleFile, templateFile: LocaleFile): ValidationIssue[] {
+    const issues = this.checkTemplate(templateFile);
+
+    for (const [key, entry] of Object.entries(targetFile.entries)) {
+      const nameError = templateFile.entries[key] ? null : this.nameError(key);
+      if (nameError) {
+        issues.push({ type: 'genL10n', locale: targetFile.locale, key, message: nameError, severity: 'error', targetValue: entry.value });
+      }
+    }
+
+    return issues;
+  }
+
+  private static checkTemplate(templateFile: LocaleFile): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const template = path.basename(templateFile.path);
+
+    for (const [key, entry] of Object.entries(templateFile.entries)) {
+      const issue = (message: string, severity: ValidationIssue['severity'] = 'error'): ValidationIssue => ({
+        type: 'genL10n',
+        locale: templateFile.locale,
+        key,
+        message,
+        severity,
+        targetValue: entry.value
+      });
+
+      const nameError = this.nameError(key);
+      if (nameError) {
+        issues.push(issue(`${nameError} (in ${template})`));
+      }
+
+      const declared: Record<string, PlaceholderDefinition> = entry.placeholders || {};
+      // Unparsable messages are left to the ICU checks. Since Flutter 3.7
+      // gen_l10n infers undeclared placeholders, so these only warn.
+      const used = new Set((ICUArguments.parse(entry.value) || []).map(arg => arg.name));
+      const undeclared = Array.from(used).filter(name => !(name in declared));
+      if (undeclared.length > 0) {
+        issues.push(issue(
+          `Placeholder${undeclared.length > 1 ? 's' : ''} ${undeclared.map(name => `{${name}}`).join(', ')} not declared in @${key}.placeholders of ${template}`,
+          'warning'
+        ));
+      }
+
+      for (const [name, definition] of Object.entries(declared)) {
+        const placeholderError = this.placeholderError(name, definition || {});
+        if (placeholderError) {
+          issues.push(issue(`${placeholderError} (@${key} in ${template})`));
+        }
+      }
+    }
+
+    return issues;
+  }
+
+  // Message names become Dart getters and methods on AppLocalizations
+  private static nameError(key: string): string | null {
+    if (key.startsWith('_')) {
+      return `"${key}" starts with an underscore, which would make it private in Dart`;
+    }
+    if (!/^[a-zA-Z_$0-9]+$/.test(key)) {
+      return `"${key}" is not a valid Dart identifier (letters, digits, _ and $ only)`;
+    }
+    if (/^[0-9]/.test(key)) {
+      return `"${key}" starts with a digit, which Dart identifiers cannot`;
+    }
+    if (DART_RESERVED_WORDS.has(key)) {
+      return `"${key}" is a Dart keyword`;
+    }
+    return null;
+  }
+
+  private static placeholderError(name: string, definition: PlaceholderDefinition): string | null {
+    const { type, format } = definition;
+    if (type !== undefined && !PLACEHOLDER_TYPES.includes(type)) {
+      return `Placeholder "${name}" has type "${type}"; gen_l10n supports ${PLACEHOLDER_TYPES.join(', ')}`;
+    }
+
+    if (type === 'DateTime') {
+      if (!format) {
+        return `DateTime placeholder "${name}" needs a "format" such as yMd`;
+      }
+      const isCustom = definition.isCustomDateFormat === true || definition.isCustomDateFormat === 'true';
+      // Several skeletons may be joined with '+', e.g. yMd+jms
+      const unknown = format.split('+').filter(skeleton => !DATE_FORMATS.has(skeleton));
+      if (!isCustom && unknown.length > 0) {
+        return `DateTime placeholder "${name}" has unknown format "${unknown.join('+')}"; use a DateFormat skeleton or set "isCustomDateFormat": "true"`;
+      }
+    }
+
+    if ((type === 'num' || type === 'int' || type === 'double') && format !== undefined && !NUMBER_FORMATS.has(format)) {
+      return `Placeholder "${name}" has format "${format}", which is not a NumberFormat constructor`;
+    }
+
+    return null;
+  }
+
+}
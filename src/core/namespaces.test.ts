@@ -0,0 +1,126 @@
+import * as path from 'path';
+import { describe, expect, it } from 'vitest';
+import { LocaleNamespaces } from './namespaces';
+import { UniversalParser } from './universal-parser';
+import { LocaleFile, LocalzConfig } from '../types';
+
+function localeFile(filePath: string, locale: string, values: Record<string, string>): LocaleFile {
+  const entries: LocaleFile['entries'] = {};
+  for (const [key, value] of Object.entries(values)) {
+    entries[key] = { key, value };
+  }
+  return { locale, path: filePath, format: 'json', entries, raw: {} };
+}
+
+const enFiles = [
+  localeFile(path.join('locales', 'en', 'common.json'), 'en', { save: 'Save' }),
+  localeFile(path.join('locales', 'en', 'auth', 'login.json'), 'en', { title: 'Log in' })
+];
+
+describe('LocaleNamespaces', () => {
+  it('only namespaces locales spread over several files', () => {
+    expect(LocaleNamespaces.isSplit(enFiles)).toBe(true);
+    expect(LocaleNamespaces.isSplit([enFiles[0], localeFile('locales/es/common.json', 'es', {})])).toBe(false);
+    expect(LocaleNamespaces.isSplit([...enFiles, localeFile(path.join('locales', 'es', 'common.json'), 'es', {})])).toBe(true);
+  });
+
+  it('ignores files of no known locale and files no other locale shares', () => {
+    const files = [
+      localeFile('en.json', 'en', {}),
+      localeFile('es.json', 'es', {}),
+      localeFile('zlocalz.config.json', 'unknown', {}),
+      localeFile('zlocalz-report.json', 'unknown', {})
+    ];
+    expect(LocaleNamespaces.isSplit(files)).toBe(false);
+    expect(LocaleNamespaces.isSplit([
+      localeFile(path.join('web', 'en.json'), 'en', {}),
+      localeFile('notes_en.json', 'en', {}),
+      localeFile(path.join('app', 'es.json'), 'es', {}),
+      localeFile('todo_es.json', 'es', {})
+    ])).toBe(false);
+  });
+
+  it('lines up the example-formats layout, locale directories in the path included', async () => {
+    const root = path.join(__dirname, '..', '..', 'example-formats');
+    const config = {
+      flutterLocalesPath: root,
+      sourceLocale: 'en',
+      targetLocales: ['es'],
+      fileFormat: 'auto',
+      doAutoFix: false,
+      translateMissing: false,
+      csvOptions: { delimiter: ',', keyColumn: 'key', valueColumns: { en: 'en', es: 'es' } }
+    } as LocalzConfig;
+    const parser = new UniversalParser(config);
+    const files: LocaleFile[] = [];
+    for (const file of await parser.discoverFiles(root)) {
+      files.push(...await parser.parseAllLocalesFromFile(file));
+    }
+
+    expect(LocaleNamespaces.isSplit(files)).toBe(true);
+    const merged = Array.from(LocaleNamespaces.byLocale(files).entries()).map(([locale, localeFiles]) => LocaleNamespaces.merge(locale, localeFiles));
+    const [en, es] = ['en', 'es'].map(locale => merged.find(file => file.locale === locale)!);
+    expect(merged).toHaveLength(2);
+    expect(LocaleNamespaces.namespaces(en)).toEqual(['json', 'yaml']);
+    expect(LocaleNamespaces.namespaces(es)).toEqual(['csv/translations', 'json', 'yaml']);
+    expect(Object.keys(LocaleNamespaces.pick(es, 'json').entries)).toEqual(Object.keys(LocaleNamespaces.pick(en, 'json').entries));
+    expect(Object.keys(LocaleNamespaces.pick(es, 'yaml').entries).every(key => key in en.entries)).toBe(true);
+  });
+
+  it('prefixes keys with the path inside the locale directory', () => {
+    const merged = LocaleNamespaces.merge('en', enFiles);
+    expect(merged.path).toBe(path.join('locales', 'en'));
+    expect(Object.keys(merged.entries)).toEqual(['common:save', 'auth/login:title']);
+    expect(merged.entries['auth/login:title']).toEqual({ key: 'auth/login:title', value: 'Log in' });
+    expect(LocaleNamespaces.namespaces(merged)).toEqual(['common', 'auth/login']);
+  });
+
+  it('drops the locale from file names when there is no locale directory', () => {
+    const merged = LocaleNamespaces.merge('pt_BR', [
+      localeFile(path.join('l10n', 'app_pt-BR.arb'), 'pt_BR', { hello: 'Olá' }),
+      localeFile(path.join('l10n', 'errors_pt_BR.arb'), 'pt_BR', { oops: 'Ops' })
+    ]);
+    expect(Object.keys(merged.entries)).toEqual(['app:hello', 'errors:oops']);
+  });
+
+  it('drops a locale directory below the namespace and writes new namespaces the same way', () => {
+    const merged = LocaleNamespaces.merge('es', [
+      localeFile(path.join('app', 'json', 'es.json'), 'es', { hello: 'Hola' }),
+      localeFile(path.join('app', 'yaml', 'es.yml'), 'es', { bye: 'Adiós' })
+    ]);
+    expect(Object.keys(merged.entries)).toEqual(['json:hello', 'yaml:bye']);
+
+    merged.entries['csv:total'] = { key: 'csv:total', value: 'Total' };
+    expect(LocaleNamespaces.split(merged).map(file => file.path)).toEqual([
+      path.join('app', 'json', 'es.json'),
+      path.join('app', 'yaml', 'es.yml'),
+      path.join('app', 'csv', 'es.json')
+    ]);
+  });
+
+  it('splits entries back into their files and creates files for new namespaces', () => {
+    const merged = LocaleNamespaces.merge('en', enFiles);
+    merged.entries['common:cancel'] = { key: 'common:cancel', value: 'Cancel' };
+    merged.entries['billing:total'] = { key: 'billing:total', value: 'Total' };
+    delete merged.entries['auth/login:title'];
+
+    const files = LocaleNamespaces.split(merged);
+    expect(files.map(file => [file.path, Object.keys(file.entries)])).toEqual([
+      [path.join('locales', 'en', 'common.json'), ['save', 'cancel']],
+      [path.join('locales', 'en', 'auth', 'login.json'), []],
+      [path.join('locales', 'en', 'billing.json'), ['total']]
+    ]);
+    expect(files[0].entries.save).toEqual({ key: 'save', value: 'Save' });
+  });
+
+  it('rejects keys without a namespace', () => {
+    const merged = LocaleNamespaces.merge('en', enFiles);
+    merged.entries.stray = { key: 'stray', value: 'Stray' };
+    expect(() => LocaleNamespaces.split(merged)).toThrow('Key "stray" has no namespace');
+  });
+
+  it('picks the entries of one namespace', () => {
+    const merged = LocaleNamespaces.merge('en', enFiles);
+    expect(Object.keys(LocaleNamespaces.pick(merged, 'common').entries)).toEqual(['common:save']);
+  });
+});
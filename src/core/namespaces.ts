@@ -0,0 +1,195 @@
+import * as path from 'path';
+import { LocaleFile } from '../types';
+import { LocaleTag } from '../utils/locale-tag';
+
+// i18next's namespace separator: `auth:login.title` is `login.title` from auth.json
+export const NAMESPACE_SEPARATOR = ':';
+
+export class LocaleNamespaces {
+  // Namespacing kicks in when a locale is spread over several files and the
+  // other locales have files in the same places, so unrelated files that
+  // happen to sit next to each other (a config, a report) are left alone.
+  // Files of no known locale never count.
+  static isSplit(files: LocaleFile[]): boolean {
+    const byLocale = this.byLocale(files);
+    if (!Array.from(byLocale.values()).some(localeFiles => localeFiles.length > 1)) return false;
+    if (byLocale.size === 1) return true;
+
+    const seen = new Set<string>();
+    for (const [locale, localeFiles] of byLocale) {
+      for (const namespace of new Set(this.layout(locale, localeFiles).namespaces)) {
+        if (seen.has(namespace)) return true;
+        seen.add(namespace);
+      }
+    }
+    return false;
+  }
+
+  // The files of each known locale
+  static byLocale(files: LocaleFile[]): Map<string, LocaleFile[]> {
+    const byLocale = new Map<string, LocaleFile[]>();
+    for (const file of files) {
+      if (file.locale === 'unknown') continue;
+      byLocale.set(file.locale, [...(byLocale.get(file.locale) || []), file]);
+    }
+    return byLocale;
+  }
+
+  // Merges every file of one locale into a single LocaleFile whose keys are
+  // prefixed with the file's path relative to the locale directory
+  // (locales/en/auth/login.json → `auth/login:`). The original files are kept
+  // in raw.namespaces so each entry can be written back where it came from.
+  static merge(locale: string, files: LocaleFile[]): LocaleFile {
+    const layout = this.layout(locale, files);
+    const namespaces: Record<string, LocaleFile> = {};
+    const entries: LocaleFile['entries'] = {};
+
+    files.forEach((file, index) => {
+      const namespace = layout.namespaces[index];
+      namespaces[namespace] = file;
+
+      for (const [key, entry] of Object.entries(file.entries)) {
+        const namespacedKey = `${namespace}${NAMESPACE_SEPARATOR}${key}`;
+        entries[namespacedKey] = { ...entry, key: namespacedKey };
+      }
+    });
+
+    const modified = files
+      .map(file => file.lastModified?.getTime() || 0)
+      .reduce((latest, time) => Math.max(latest, time), 0);
+
+    return {
+      locale,
+      path: layout.directory,
+      format: files[0].format,
+      entries,
+      raw: { namespaces, directory: layout.directory, extension: path.extname(files[0].path), localeInName: layout.localeInName },
+      lastModified: modified ? new Date(modified) : undefined
+    };
+  }
+
+  // Inverse of merge. Namespaces that only exist in the merged entries (for
+  // example a file translated for the first time) get a new file in the locale directory.
+  static split(localeFile: LocaleFile): LocaleFile[] {
+    const originals: Record<string, LocaleFile> = localeFile.raw.namespaces || {};
+    const files = new Map<string, LocaleFile>();
+
+    for (const [namespace, original] of Object.entries(originals)) {
+      files.set(namespace, { ...original, entries: {} });
+    }
+
+    for (const entry of Object.values(localeFile.entries)) {
+      const namespace = this.namespaceOf(entry.key);
+      if (namespace === undefined) {
+        throw new Error(`Key "${entry.key}" has no namespace; expected "<namespace>${NAMESPACE_SEPARATOR}<key>"`);
+      }
+
+      if (!files.has(namespace)) {
+        files.set(namespace, {
+          locale: localeFile.locale,
+          path: path.join(localeFile.raw.directory, `${this.fileName(namespace, localeFile)}${localeFile.raw.extension}`),
+          format: localeFile.format,
+          entries: {},
+          raw: {}
+        });
+      }
+
+      const key = entry.key.slice(namespace.length + NAMESPACE_SEPARATOR.length);
+      files.get(namespace)!.entries[key] = { ...entry, key };
+    }
+
+    return Array.from(files.values());
+  }
+
+  static namespaceOf(key: string): string | undefined {
+    const index = key.indexOf(NAMESPACE_SEPARATOR);
+    return index === -1 ? undefined : key.slice(0, index);
+  }
+
+  static namespaces(localeFile: LocaleFile): string[] {
+    const namespaces = new Set<string>(Object.keys(localeFile.raw?.namespaces || {}));
+    for (const key of Object.keys(localeFile.entries)) {
+      const namespace = this.namespaceOf(key);
+      if (namespace !== undefined) namespaces.add(namespace);
+    }
+    return Array.from(namespaces);
+  }
+
+  // A view of the file restricted to one namespace; keys keep their prefix
+  static pick(localeFile: LocaleFile, namespace: string): LocaleFile {
+    const prefix = `${namespace}${NAMESPACE_SEPARATOR}`;
+    const entries: LocaleFile['entries'] = {};
+    for (const [key, entry] of Object.entries(localeFile.entries)) {
+      if (key.startsWith(prefix)) entries[key] = entry;
+    }
+    return { ...localeFile, entries };
+  }
+
+  // Where a locale's files live and the namespace of each file: its path
+  // inside the locale directory, or else inside the directory the files
+  // share, less the locale (app_en.arb → app, json/en.json → json).
+  private static layout(locale: string, files: LocaleFile[]): {
+    directory: string;
+    namespaces: string[];
+    localeInName: false | 'suffix' | 'directory';
+  } {
+    const localeDirectory = this.localeDirectory(files[0].path, locale);
+    const directory = localeDirectory || this.commonDirectory(files.map(file => path.dirname(file.path)));
+    let localeInName: false | 'suffix' | 'directory' = false;
+
+    const namespaces = files.map(file => {
+      const relative = path.relative(directory, file.path);
+      const namespace = relative
+        .slice(0, relative.length - path.extname(relative).length)
+        .split(path.sep)
+        .join('/');
+      if (localeDirectory) return namespace;
+
+      const match = this.localeSuffix(locale).exec(namespace);
+      if (!match) return namespace;
+      localeInName = match[1] === '/' ? 'directory' : 'suffix';
+      // A file named after nothing but its locale (l10n/en.json) has the empty namespace
+      return namespace.slice(0, match.index);
+    });
+
+    return { directory, namespaces, localeInName };
+  }
+
+  // The file name, without extension, a new namespace gets in the locale's layout
+  private static fileName(namespace: string, localeFile: LocaleFile): string {
+    if (namespace === '') return localeFile.locale;
+    switch (localeFile.raw.localeInName) {
+      case 'directory':
+        return `${namespace}/${localeFile.locale}`;
+      case 'suffix':
+        return `${namespace}_${localeFile.locale}`;
+      default:
+        return namespace;
+    }
+  }
+
+  // The closest ancestor named after the locale (locales/en, locales/pt-BR)
+  private static localeDirectory(filePath: string, locale: string): string | null {
+    let directory = path.dirname(filePath);
+    while (directory !== path.dirname(directory)) {
+      if (LocaleTag.equals(path.basename(directory), locale)) return directory;
+      directory = path.dirname(directory);
+    }
+    return null;
+  }
+
+  private static commonDirectory(directories: string[]): string {
+    return directories.reduce((common, directory) => {
+      while (path.relative(common, directory).startsWith('..')) {
+        common = path.dirname(common);
+      }
+      return common;
+    });
+  }
+
+  // The locale at the end of a namespace: after a separator, as the last path segment or on its own
+  private static localeSuffix(locale: string): RegExp {
+    const pattern = locale.split('_').map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('[-_]');
+    return new RegExp(`(^|[/._-])${pattern}$`, 'i');
+  }
+}
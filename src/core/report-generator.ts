@@ -1,5 +1,6 @@
 import { LocalzReport, LocaleReport, LocaleFile, Fix, Translation } from '../types';
 import { DiffGenerator } from '../utils/diff-generator';
+import { ARBParser } from './arb-parser';
 
 export class ReportGenerator {
   static async generateReport(
@@ -61,7 +62,14 @@ export class ReportGenerator {
       duplicate: 0,
       icuError: 0,
       placeholderMismatch: 0,
-      formatting: 0
+      formatting: 0,
+      localeMismatch: 0,
+      genL10n: 0,
+      untranslated: 0,
+      lengthOverflow: 0,
+      markupMismatch: 0,
+      glossary: 0,
+      doNotTranslate: 0
     };
 
     for (const report of localeReports.values()) {
@@ -71,6 +79,13 @@ export class ReportGenerator {
       issues.icuError += report.stats.icuErrors;
       issues.placeholderMismatch += report.stats.placeholderMismatches;
       issues.formatting += report.stats.formattingWarnings;
+      issues.localeMismatch += report.stats.localeMismatches;
+      issues.genL10n += report.stats.genL10nErrors;
+      issues.untranslated += report.stats.untranslated;
+      issues.lengthOverflow += report.stats.lengthOverflows;
+      issues.markupMismatch += report.stats.markupMismatches;
+      issues.glossary += report.stats.glossaryViolations;
+      issues.doNotTranslate += report.stats.doNotTranslateViolations;
     }
 
     const notes: string[] = [];
@@ -109,7 +124,14 @@ export class ReportGenerator {
       duplicates: [],
       placeholderMismatches: [],
       icuIssues: [],
-      formattingWarnings: []
+      formattingWarnings: [],
+      localeMismatches: [],
+      genL10nErrors: [],
+      untranslated: [],
+      lengthOverflows: [],
+      markupMismatches: [],
+      glossaryViolations: [],
+      doNotTranslateViolations: []
     };
 
     for (const issue of report.issues) {
@@ -139,6 +161,43 @@ export class ReportGenerator {
         case 'formatting':
           result.formattingWarnings.push(`${issue.key} ${issue.message}`);
           break;
+        case 'localeMismatch':
+          result.localeMismatches.push(issue.message);
+          break;
+        case 'genL10n':
+          result.genL10nErrors.push({
+            key: issue.key,
+            message: issue.message
+          });
+          break;
+        case 'untranslated':
+          result.untranslated.push(issue.key);
+          break;
+        case 'lengthOverflow':
+          result.lengthOverflows.push({
+            key: issue.key,
+            message: issue.message,
+            ...issue.overflow
+          });
+          break;
+        case 'markupMismatch':
+          result.markupMismatches.push({
+            key: issue.key,
+            message: issue.message
+          });
+          break;
+        case 'glossary':
+          result.glossaryViolations.push({
+            key: issue.key,
+            message: issue.message
+          });
+          break;
+        case 'doNotTranslate':
+          result.doNotTranslateViolations.push({
+            key: issue.key,
+            message: issue.message
+          });
+          break;
       }
     }
 
@@ -151,11 +210,7 @@ export class ReportGenerator {
     const files: Array<{ path: string; contents: string }> = [];
 
     for (const file of targetFiles.values()) {
-      const output: Record<string, any> = {};
-      
-      if (file.raw['@@locale']) {
-        output['@@locale'] = file.raw['@@locale'];
-      }
+      const output: Record<string, unknown> = ARBParser.globalAttributes(file.raw);
 
       const keys = Object.keys(file.entries).sort();
       for (const key of keys) {
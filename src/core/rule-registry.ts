@@ -0,0 +1,37 @@
+import { ValidationRule } from '../types';
+import { BUILTIN_RULES } from './rules/builtin';
+
+export class RuleRegistry {
+  private static rules: ValidationRule[] = [...BUILTIN_RULES];
+
+  // A rule with the name of an existing one replaces it in place; new rules
+  // run after the built-in ones
+  static register(rule: ValidationRule): void {
+    if (!rule || typeof rule.name !== 'string' || rule.name === '' || typeof rule.check !== 'function') {
+      throw new Error('Invalid validation rule: name and check() are required');
+    }
+
+    const index = this.rules.findIndex(existing => existing.name === rule.name);
+    if (index !== -1) {
+      this.rules[index] = rule;
+    } else {
+      this.rules.push(rule);
+    }
+  }
+
+  static get(name: string): ValidationRule {
+    const rule = this.rules.find(existing => existing.name === name);
+    if (!rule) {
+      throw new Error(`Unknown rule: ${name}`);
+    }
+    return rule;
+  }
+
+  static has(name: string): boolean {
+    return this.rules.some(rule => rule.name === name);
+  }
+
+  static all(): ValidationRule[] {
+    return [...this.rules];
+  }
+}
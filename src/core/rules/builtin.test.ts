@@ -0,0 +1,163 @@
+import { describe, expect, it } from 'vitest';
+import { BUILTIN_RULES } from './builtin';
+import { FormatName, LocaleFile, LocalzConfig } from '../../types';
+
+function localeFile(locale: string, values: Record<string, string>, format: FormatName = 'arb'): LocaleFile {
+  const entries: LocaleFile['entries'] = {};
+  for (const [key, value] of Object.entries(values)) {
+    entries[key] = { key, value };
+  }
+  return { locale, path: `app_${locale}.${format}`, format, entries, raw: {} };
+}
+
+// The issues one rule finds for a single message
+function check(rule: string, source: string, target: string, locale: string, config: Partial<LocalzConfig> = {}) {
+  const found = BUILTIN_RULES.find(candidate => candidate.name === rule)!;
+  return found.check(localeFile(locale, { key: target }), localeFile('en', { key: source }), config)
+    .map(issue => ({ message: issue.message, severity: issue.severity }));
+}
+
+describe('icuError', () => {
+  const source = '{count, plural, one{# file} other{# files}}';
+
+  it('accepts the CLDR categories of the target locale', () => {
+    expect(check('icuError', source, '{count, plural, one{# файл} few{# файла} many{# файлов} other{# файла}}', 'ru')).toEqual([]);
+    expect(check('icuError', source, '{count, plural, other{# ファイル}}', 'ja')).toEqual([]);
+  });
+
+  it('reports categories the target locale needs', () => {
+    expect(check('icuError', source, '{count, plural, one{# файл} other{# файлов}}', 'ru')).toEqual([
+      { message: '{count, plural} is missing "few", "many", required for ru', severity: 'error' }
+    ]);
+  });
+
+  it('lets exact matches stand in for a category that selects only those numbers', () => {
+    expect(check('icuError', source, '{count, plural, =1{Eine Datei} other{# Dateien}}', 'de')).toEqual([]);
+    expect(check('icuError', source, '{count, plural, =1{# файл} few{# файла} many{# файлов} other{# файла}}', 'ru'))
+      .toEqual([{ message: '{count, plural} is missing "one", required for ru', severity: 'error' }]);
+  });
+
+  it('warns about categories the target locale never selects', () => {
+    expect(check('icuError', source, '{count, plural, one{# ファイル} other{# ファイル}}', 'ja')).toEqual([
+      { message: '{count, plural} case "one" is never selected in ja', severity: 'warning' }
+    ]);
+  });
+
+  it('checks ordinals against ordinal categories', () => {
+    const ordinal = '{n, selectordinal, one{#st} two{#nd} few{#rd} other{#th}}';
+    expect(check('icuError', ordinal, ordinal, 'en_GB')).toEqual([]);
+    expect(check('icuError', ordinal, '{n, selectordinal, other{#.}}', 'de')).toEqual([]);
+    expect(check('icuError', ordinal, '{n, selectordinal, other{#th}}', 'en')).toHaveLength(1);
+  });
+
+  it('requires an other case and the same arguments as the source', () => {
+    const select = '{gender, select, male{He} other{They}}';
+    expect(check('icuError', select, '{gender, select, male{Er}}', 'de')).toEqual([
+      { message: '{gender, select} has no "other" case', severity: 'error' }
+    ]);
+    expect(check('icuError', source, '{n, plural, one{# Datei} other{# Dateien}}', 'de')[0].message)
+      .toBe('ICU structure mismatch with source: expected [{count, plural}], found [{n, plural}]');
+    expect(check('icuError', source, '{count, plural, one{# Datei} other{# Dateien}', 'de')[0].message).toMatch(/^Invalid ICU message/);
+  });
+});
+
+describe('untranslated', () => {
+  it('reports target text copied from the source', () => {
+    expect(check('untranslated', 'Save changes', 'Save changes', 'de')).toEqual([
+      { message: 'Value is identical to the source and may not have been translated', severity: 'warning' }
+    ]);
+    expect(check('untranslated', '{count, plural, one{# file} other{# files}}', '{count, plural, other{# files}}', 'ja')).toHaveLength(1);
+  });
+
+  it('skips translated text, same-language locales and short values', () => {
+    expect(check('untranslated', 'Save changes', 'Änderungen speichern', 'de')).toEqual([]);
+    expect(check('untranslated', 'Colour', 'Colour', 'en_GB')).toEqual([]);
+    expect(check('untranslated', 'OK', 'OK', 'de')).toEqual([]);
+  });
+
+  it('ignores ICU syntax and argument names', () => {
+    expect(check('untranslated', '{count, plural, one{#} other{#}}', '{count, plural, one{#} other{#}}', 'de')).toEqual([]);
+    expect(check('untranslated', '{username}: {message}', '{username}: {message}', 'de')).toEqual([]);
+    expect(check('untranslated', '{gender, select, male{{name}} other{{name}}}', '{gender, select, male{{name}} other{{name}}}', 'de')).toEqual([]);
+  });
+
+  it('ignores allowed and doNotTranslate tokens', () => {
+    const config: Partial<LocalzConfig> = {
+      doNotTranslate: ['Google Pay'],
+      untranslatedOptions: { allow: ['Email'], locales: { de: ['Status'] } }
+    };
+    expect(check('untranslated', 'Google Pay', 'Google Pay', 'de', config)).toEqual([]);
+    expect(check('untranslated', 'Email', 'Email', 'de', config)).toEqual([]);
+    expect(check('untranslated', 'Status', 'Status', 'de_AT', config)).toEqual([]);
+    expect(check('untranslated', 'Status', 'Status', 'fr', config)).toHaveLength(1);
+  });
+
+  it('only takes out allowed tokens that stand as whole words', () => {
+    const config: Partial<LocalzConfig> = { untranslatedOptions: { allow: ['App'] } };
+    expect(check('untranslated', 'Happy Apps', 'Happy Apps', 'de', config)).toHaveLength(1);
+    expect(check('untranslated', 'App', 'App', 'de', config)).toEqual([]);
+  });
+});
+
+describe('lengthOverflow', () => {
+  const withMaxLength = (file: LocaleFile, maxLength: number) => {
+    file.entries.key.metadata = { 'x-maxLength': maxLength };
+    return file;
+  };
+  const rule = BUILTIN_RULES.find(candidate => candidate.name === 'lengthOverflow')!;
+
+  it('does nothing without a limit or ratio', () => {
+    expect(check('lengthOverflow', 'Save', 'Speichern und schließen', 'de')).toEqual([]);
+  });
+
+  it('warns when a translation grows past the expansion ratio', () => {
+    const config: Partial<LocalzConfig> = { lengthOptions: { maxRatio: 1.5, locales: { de: 2.5 } } };
+    expect(check('lengthOverflow', 'Save', 'Enregistrer', 'fr', config)).toEqual([
+      { message: "11 characters is 2.75× the source's 4, over the 1.5× allowed for fr", severity: 'warning' }
+    ]);
+    expect(check('lengthOverflow', 'Save', 'Speichern', 'de_AT', config)).toEqual([]);
+  });
+
+  it('errors past a declared x-maxLength, which takes the place of the ratio', () => {
+    const source = withMaxLength(localeFile('en', { key: 'Save' }), 8);
+    const issues = rule.check(localeFile('fr', { key: 'Enregistrer' }), source, { lengthOptions: { maxRatio: 10 } });
+    expect(issues).toMatchObject([{
+      message: '11 characters, over the x-maxLength of 8',
+      severity: 'error',
+      overflow: { length: 11, sourceLength: 4, maxLength: 8 }
+    }]);
+    const tighter = withMaxLength(localeFile('fr', { key: 'Enregistrer' }), 20);
+    expect(rule.check(tighter, source, {})).toEqual([]);
+  });
+
+  it('measures grapheme clusters and the longest plural case', () => {
+    const source = withMaxLength(localeFile('en', { key: '{n, plural, one{# file} other{# files}}' }), 8);
+    const target = localeFile('de', { key: '{n, plural, one{# Datei} other{# Dateien}}' });
+    expect(rule.check(target, source, {})[0].overflow).toMatchObject({ length: 9, sourceLength: 7 });
+
+    const emoji = withMaxLength(localeFile('en', { key: 'Hi' }), 3);
+    expect(rule.check(localeFile('de', { key: '👋🏽 Hallo' }), emoji, {})[0].overflow?.length).toBe(7);
+  });
+});
+
+describe('doNotTranslate', () => {
+  const config: Partial<LocalzConfig> = { doNotTranslate: ['Go', 'ACME Cloud'] };
+
+  it('only looks for tokens as whole words', () => {
+    expect(check('doNotTranslate', 'Going home', 'Nach Hause gehen', 'de', config)).toEqual([]);
+    expect(check('doNotTranslate', 'Written in Go', 'In Golang geschrieben', 'de', config)).toEqual([
+      { message: '"Go" must not be translated but is missing from the translation', severity: 'error' }
+    ]);
+    expect(check('doNotTranslate', 'Written in Go', 'In Go geschrieben', 'de', config)).toEqual([]);
+  });
+
+  it('suggests putting a recased token back', () => {
+    const issues = BUILTIN_RULES.find(rule => rule.name === 'doNotTranslate')!.check(
+      localeFile('de', { key: 'Mit ACME cloud sichern' }), localeFile('en', { key: 'Back up with ACME Cloud' }), config
+    );
+    expect(issues).toMatchObject([{
+      message: '"ACME Cloud" must not be translated but appears as "ACME cloud"',
+      suggestion: 'Mit ACME Cloud sichern'
+    }]);
+  });
+});
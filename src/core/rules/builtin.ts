@@ -0,0 +1,673 @@
+import * as path from 'path';
+import { Select, Token, parse as parseICU } from '@messageformat/parser';
+import { FormatName, LocaleFile, LocalzConfig, ValidationIssue, ValidationRule } from '../../types';
+import { FluentFormat } from '../formats/fluent';
+import { ARBParser } from '../arb-parser';
+import { GenL10n } from '../gen-l10n';
+import { ICUArguments } from '../../utils/icu-arguments';
+import { LocaleTag } from '../../utils/locale-tag';
+import { Markup } from '../../utils/markup';
+import { Glossary } from '../../utils/glossary';
+import { ICUPlural, PLURAL_CATEGORIES, PluralKind } from '../../utils/icu-plural';
+
+// Entry metadata giving a hard limit in grapheme clusters, e.g. "@save": { "x-maxLength": 12 }
+const MAX_LENGTH_ATTRIBUTE = 'x-maxLength';
+
+const graphemes = new Intl.Segmenter(undefined, { granularity: 'grapheme' });
+
+function checkMissingKeys(targetFile: LocaleFile, sourceFile: LocaleFile): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const sourceKeys = Object.keys(sourceFile.entries);
+  const targetKeys = new Set(Object.keys(targetFile.entries));
+
+  for (const key of sourceKeys) {
+    if (sourceFile.entries[key].metadata?.translatable === false) continue;
+
+    if (!targetKeys.has(key)) {
+      issues.push({
+        type: 'missing',
+        locale: targetFile.locale,
+        key,
+        message: `Key "${key}" is missing`,
+        severity: 'error',
+        sourceValue: sourceFile.entries[key].value
+      });
+    }
+  }
+
+  return issues;
+}
+
+function checkExtraKeys(targetFile: LocaleFile, sourceFile: LocaleFile): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const sourceKeys = new Set(Object.keys(sourceFile.entries));
+  const targetKeys = Object.keys(targetFile.entries);
+
+  for (const key of targetKeys) {
+    if (!sourceKeys.has(key)) {
+      issues.push({
+        type: 'extra',
+        locale: targetFile.locale,
+        key,
+        message: `Key "${key}" not in source locale`,
+        severity: 'warning',
+        targetValue: targetFile.entries[key].value
+      });
+    }
+  }
+
+  return issues;
+}
+
+function checkDuplicates(targetFile: LocaleFile): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const seenValues = new Map<string, string[]>();
+
+  for (const [key, entry] of Object.entries(targetFile.entries)) {
+    const value = entry.value.trim();
+    if (!seenValues.has(value)) {
+      seenValues.set(value, []);
+    }
+    seenValues.get(value)!.push(key);
+  }
+
+  for (const [value, keys] of seenValues.entries()) {
+    if (keys.length > 1) {
+      for (let i = 1; i < keys.length; i++) {
+        issues.push({
+          type: 'duplicate',
+          locale: targetFile.locale,
+          key: keys[i],
+          message: `Duplicate value with key "${keys[0]}"`,
+          severity: 'warning',
+          targetValue: value,
+          suggestion: `Remove duplicate or differentiate from "${keys[0]}"`
+        });
+      }
+    }
+  }
+
+  return issues;
+}
+
+function checkPlaceholders(targetFile: LocaleFile, sourceFile: LocaleFile): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  for (const key of Object.keys(sourceFile.entries)) {
+    if (!targetFile.entries[key]) continue;
+
+    const sourcePlaceholders = extractPlaceholders(sourceFile.entries[key].value, sourceFile.format);
+    const targetPlaceholders = extractPlaceholders(targetFile.entries[key].value, targetFile.format);
+
+    // const sourcePSet = new Set(sourcePlaceholders);
+    const targetPSet = new Set(targetPlaceholders);
+
+    if (sourcePlaceholders.length !== targetPlaceholders.length ||
+        !sourcePlaceholders.every(p => targetPSet.has(p))) {
+      issues.push({
+        type: 'placeholderMismatch',
+        locale: targetFile.locale,
+        key,
+        message: `Placeholder mismatch: expected [${sourcePlaceholders.join(', ')}], found [${targetPlaceholders.join(', ')}]`,
+        severity: 'error',
+        sourceValue: sourceFile.entries[key].value,
+        targetValue: targetFile.entries[key].value
+      });
+    }
+  }
+
+  return issues;
+}
+
+function checkICUMessages(targetFile: LocaleFile, sourceFile: LocaleFile): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  for (const key of Object.keys(sourceFile.entries)) {
+    if (!targetFile.entries[key]) continue;
+
+    const sourceValue = sourceFile.entries[key].value;
+    const targetValue = targetFile.entries[key].value;
+
+    if (isICUMessage(sourceValue)) {
+      try {
+        const sourceArguments = complexArguments(parseICU(sourceValue));
+        const targetNodes = complexNodes(parseICU(targetValue));
+        const targetArguments = new Set(targetNodes.map(node => `{${node.arg}, ${node.type}}`));
+
+        // Case keys may differ between locales; the arguments being switched on may not
+        if (sourceArguments.length !== targetArguments.size || !sourceArguments.every(arg => targetArguments.has(arg))) {
+          issues.push({
+            type: 'icuError',
+            locale: targetFile.locale,
+            key,
+            message: `ICU structure mismatch with source: expected [${sourceArguments.join(', ')}], found [${Array.from(targetArguments).join(', ')}]`,
+            severity: 'error',
+            sourceValue,
+            targetValue
+          });
+        }
+
+        for (const node of targetNodes) {
+          for (const { message, severity } of checkCases(node, targetFile.locale)) {
+            issues.push({ type: 'icuError', locale: targetFile.locale, key, message, severity, sourceValue, targetValue });
+          }
+        }
+      } catch (error) {
+        issues.push({
+          type: 'icuError',
+          locale: targetFile.locale,
+          key,
+          message: `Invalid ICU message: ${error}`,
+          severity: 'error',
+          targetValue
+        });
+      }
+    }
+  }
+
+  return issues;
+}
+
+function checkMarkup(targetFile: LocaleFile, sourceFile: LocaleFile): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  for (const key of Object.keys(sourceFile.entries)) {
+    if (!targetFile.entries[key]) continue;
+
+    const sourceValue = sourceFile.entries[key].value;
+    const targetValue = targetFile.entries[key].value;
+    const message = Markup.compare(sourceValue, targetValue);
+    if (message) {
+      issues.push({
+        type: 'markupMismatch',
+        locale: targetFile.locale,
+        key,
+        message,
+        severity: 'error',
+        sourceValue,
+        targetValue
+      });
+    }
+  }
+
+  return issues;
+}
+
+function checkFluentMessages(targetFile: LocaleFile, sourceFile: LocaleFile): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  for (const key of Object.keys(sourceFile.entries)) {
+    if (!targetFile.entries[key]) continue;
+
+    const sourceValue = sourceFile.entries[key].value;
+    const targetValue = targetFile.entries[key].value;
+
+    const syntaxError = FluentFormat.syntaxError(targetValue);
+    if (syntaxError) {
+      issues.push({
+        type: 'icuError',
+        locale: targetFile.locale,
+        key,
+        message: syntaxError,
+        severity: 'error',
+        targetValue
+      });
+      continue;
+    }
+
+    const targetSelects = FluentFormat.selects(targetValue);
+    for (const sourceSelect of FluentFormat.selects(sourceValue)) {
+      const targetSelect = targetSelects.find(select => select.selector === sourceSelect.selector);
+      if (!targetSelect) {
+        issues.push({
+          type: 'icuError',
+          locale: targetFile.locale,
+          key,
+          message: `Selector { ${sourceSelect.selector} -> ... } is missing`,
+          severity: 'error',
+          sourceValue,
+          targetValue
+        });
+        continue;
+      }
+
+      // Plural categories legitimately differ between locales; other keys must match
+      const isPluralCategory = (variantKey: string) => (PLURAL_CATEGORIES as readonly string[]).includes(variantKey);
+      const sourceKeys = sourceSelect.keys.filter(variantKey => !isPluralCategory(variantKey)).sort();
+      const targetKeys = targetSelect.keys.filter(variantKey => !isPluralCategory(variantKey)).sort();
+      if (sourceKeys.join('|') !== targetKeys.join('|')) {
+        issues.push({
+          type: 'icuError',
+          locale: targetFile.locale,
+          key,
+          message: `Variant keys mismatch for { ${sourceSelect.selector} }: expected [${sourceKeys.join(', ')}], found [${targetKeys.join(', ')}]`,
+          severity: 'error',
+          sourceValue,
+          targetValue
+        });
+      }
+    }
+  }
+
+  return issues;
+}
+
+function checkFormatting(targetFile: LocaleFile): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  for (const [key, entry] of Object.entries(targetFile.entries)) {
+    const value = entry.value;
+
+    if (value !== value.trim()) {
+      issues.push({
+        type: 'formatting',
+        locale: targetFile.locale,
+        key,
+        message: 'Value has leading or trailing whitespace',
+        severity: 'warning',
+        targetValue: value,
+        suggestion: value.trim()
+      });
+    }
+
+    // Fluent indents continuation lines and variants; only spacing within a line counts
+    const isFluent = targetFile.format === 'ftl';
+    if ((isFluent ? value.replace(/^[ \t]+/gm, '') : value).includes('  ')) {
+      issues.push({
+        type: 'formatting',
+        locale: targetFile.locale,
+        key,
+        message: 'Value contains multiple consecutive spaces',
+        severity: 'warning',
+        targetValue: value,
+        suggestion: isFluent ? value.replace(/(\S)[ \t]{2,}/g, '$1 ') : value.replace(/\s+/g, ' ')
+      });
+    }
+  }
+
+  return issues;
+}
+
+function checkDeclaredLocale(file: LocaleFile): ValidationIssue[] {
+  const declared = ARBParser.declaredLocale(file.raw);
+  if (!declared || declared === file.locale) return [];
+
+  return [{
+    type: 'localeMismatch',
+    locale: file.locale,
+    key: '@@locale',
+    message: `@@locale "${file.raw['@@locale']}" does not match locale "${file.locale}" from ${path.basename(file.path)}`,
+    severity: 'error',
+    targetValue: file.raw['@@locale'],
+    suggestion: file.locale
+  }];
+}
+
+function checkUntranslated(targetFile: LocaleFile, sourceFile: LocaleFile, config: Partial<LocalzConfig>): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const target = LocaleTag.parse(targetFile.locale);
+
+  // en_GB legitimately shares most of its strings with en
+  if (!target || target.language === LocaleTag.parse(sourceFile.locale)?.language) return issues;
+
+  const options = config.untranslatedOptions || {};
+  const minLength = options.minLength ?? 3;
+  // Per-locale exceptions listed under a bare language (de) also cover its regions (de_AT)
+  const localeExceptions = Object.entries(options.locales || {})
+    .filter(([locale]) => LocaleTag.equals(locale, targetFile.locale) || LocaleTag.equals(locale, target.language))
+    .flatMap(([, values]) => values);
+  // Longest first, so "Google Pay" goes before "Google"
+  const allowed = [...(options.allow || []), ...(config.doNotTranslate || []), ...localeExceptions]
+    .filter(token => token !== '')
+    .sort((a, b) => b.length - a.length);
+
+  for (const [key, sourceEntry] of Object.entries(sourceFile.entries)) {
+    const targetEntry = targetFile.entries[key];
+    if (!targetEntry || sourceEntry.metadata?.translatable === false) continue;
+
+    // Every piece of target text appears in the source; case keys may differ,
+    // as when a Japanese plural keeps only the English `other`
+    const sourceTexts = new Set(translatableTexts(sourceEntry.value));
+    const targetTexts = translatableTexts(targetEntry.value);
+    if (!targetTexts.every(text => sourceTexts.has(text))) continue;
+
+    // What is left once allowed tokens are taken out must be worth translating.
+    // Tokens are whole words, so "App" does not take the letters out of "Happy".
+    let text = targetTexts.join(' ');
+    for (const token of allowed) {
+      text = Glossary.remove(text, token);
+    }
+    if ((text.match(/\p{L}/gu) || []).length < minLength) continue;
+
+    issues.push({
+      type: 'untranslated',
+      locale: targetFile.locale,
+      key,
+      message: 'Value is identical to the source and may not have been translated',
+      severity: 'warning',
+      sourceValue: sourceEntry.value,
+      targetValue: targetEntry.value
+    });
+  }
+
+  return issues;
+}
+
+// The runs of text a translator would change, each with its whitespace
+// collapsed: ICU syntax, arguments and # split runs and are left out.
+// Messages that are not valid ICU only lose their {argument} placeholders.
+function translatableTexts(value: string): string[] {
+  let runs: string[];
+  try {
+    runs = [''];
+    const visit = (nodes: Token[]) => {
+      for (const node of nodes) {
+        if (node.type === 'content') {
+          runs[runs.length - 1] += node.value;
+          continue;
+        }
+        runs.push('');
+        if ('cases' in node) {
+          for (const option of node.cases) {
+            visit(option.tokens);
+            runs.push('');
+          }
+        }
+      }
+    };
+    visit(parseICU(value));
+  } catch {
+    runs = value.split(/\{\s*[^\s{},]+\s*(?:,[^{}]*)?\}/);
+  }
+  return runs.map(run => run.trim().replace(/\s+/g, ' ')).filter(run => run !== '');
+}
+
+function checkLength(targetFile: LocaleFile, sourceFile: LocaleFile, config: Partial<LocalzConfig>): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const maxRatio = expansionRatio(targetFile.locale, config);
+
+  for (const [key, sourceEntry] of Object.entries(sourceFile.entries)) {
+    const targetEntry = targetFile.entries[key];
+    if (!targetEntry) continue;
+
+    // Usually declared once on the source (the ARB template); a target may tighten it
+    const declared = Number(targetEntry.metadata?.[MAX_LENGTH_ATTRIBUTE] ?? sourceEntry.metadata?.[MAX_LENGTH_ATTRIBUTE]);
+    const maxLength = Number.isFinite(declared) && declared > 0 ? declared : undefined;
+    if (maxLength === undefined && maxRatio === undefined) continue;
+
+    const length = displayLength(targetEntry.value);
+    const sourceLength = displayLength(sourceEntry.value);
+    const ratio = sourceLength > 0 ? Math.round(length / sourceLength * 100) / 100 : 0;
+    const issue = (message: string, severity: ValidationIssue['severity']): ValidationIssue => ({
+      type: 'lengthOverflow',
+      locale: targetFile.locale,
+      key,
+      message,
+      severity,
+      sourceValue: sourceEntry.value,
+      targetValue: targetEntry.value,
+      overflow: { length, sourceLength, ratio, maxLength, maxRatio }
+    });
+
+    // A declared limit is exact, so it takes the place of the ratio
+    if (maxLength !== undefined) {
+      if (length > maxLength) {
+        issues.push(issue(`${length} characters, over the ${MAX_LENGTH_ATTRIBUTE} of ${maxLength}`, 'error'));
+      }
+    } else if (maxRatio !== undefined && sourceLength > 0 && ratio > maxRatio) {
+      issues.push(issue(`${length} characters is ${ratio}× the source's ${sourceLength}, over the ${maxRatio}× allowed for ${targetFile.locale}`, 'warning'));
+    }
+  }
+
+  return issues;
+}
+
+// The locale's own ratio, else its language's (de for de_AT), else the default
+function expansionRatio(locale: string, config: Partial<LocalzConfig>): number | undefined {
+  const options = config.lengthOptions || {};
+  const locales = Object.keys(options.locales || {});
+  const language = LocaleTag.parse(locale)?.language;
+  const match = LocaleTag.find(locales, locale) ?? (language !== undefined ? LocaleTag.find(locales, language) : undefined);
+  return match !== undefined ? options.locales![match] : options.maxRatio;
+}
+
+// Grapheme clusters in the longest way a message can render: each plural or
+// select takes its longest case and arguments count as written ({name})
+function displayLength(value: string): number {
+  let tokens: Token[];
+  try {
+    tokens = parseICU(value);
+  } catch {
+    return countGraphemes(value);
+  }
+
+  const longest = (nodes: Token[]): number => nodes.reduce((total, node) => {
+    if ('cases' in node) {
+      return total + Math.max(0, ...node.cases.map(option => longest(option.tokens)));
+    }
+    return total + countGraphemes(node.type === 'content' ? node.value : node.ctx.text);
+  }, 0);
+  return longest(tokens);
+}
+
+function countGraphemes(text: string): number {
+  return Array.from(graphemes.segment(text)).length;
+}
+
+function checkGlossary(targetFile: LocaleFile, sourceFile: LocaleFile, config: Partial<LocalzConfig>): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const terms = Object.entries(Glossary.forLocale(config.domainGlossary, targetFile.locale));
+  if (terms.length === 0) return issues;
+
+  for (const [key, sourceEntry] of Object.entries(sourceFile.entries)) {
+    const targetEntry = targetFile.entries[key];
+    if (!targetEntry || sourceEntry.metadata?.translatable === false) continue;
+    // Values never translated at all are the untranslated rule's to report
+    if (targetEntry.value.trim() === sourceEntry.value.trim()) continue;
+
+    for (const [term, translation] of terms) {
+      if (!Glossary.contains(sourceEntry.value, term, sourceFile.locale, config.glossaryOptions)) continue;
+      if (Glossary.contains(targetEntry.value, translation, targetFile.locale, config.glossaryOptions)) continue;
+
+      issues.push({
+        type: 'glossary',
+        locale: targetFile.locale,
+        key,
+        message: `Glossary term "${term}" should be translated as "${translation}"`,
+        severity: 'warning',
+        sourceValue: sourceEntry.value,
+        targetValue: targetEntry.value
+      });
+    }
+  }
+
+  return issues;
+}
+
+// doNotTranslate tokens must come through exactly as written
+function checkDoNotTranslate(targetFile: LocaleFile, sourceFile: LocaleFile, config: Partial<LocalzConfig>): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const tokens = (config.doNotTranslate || []).filter(token => token !== '');
+  if (tokens.length === 0) return issues;
+
+  for (const [key, sourceEntry] of Object.entries(sourceFile.entries)) {
+    const targetEntry = targetFile.entries[key];
+    if (!targetEntry) continue;
+
+    for (const token of tokens) {
+      // Whole words only, so "Go" is not looked for in "Going"
+      const exact = { caseSensitive: true };
+      if (!Glossary.contains(sourceEntry.value, token, sourceFile.locale, exact) ||
+        Glossary.contains(targetEntry.value, token, targetFile.locale, exact)) continue;
+
+      // A recased token ("ACME cloud") can be put back; anything else needs a translator
+      const altered = Glossary.find(targetEntry.value, token);
+      issues.push({
+        type: 'doNotTranslate',
+        locale: targetFile.locale,
+        key,
+        message: altered
+          ? `"${token}" must not be translated but appears as "${altered}"`
+          : `"${token}" must not be translated but is missing from the translation`,
+        severity: 'error',
+        sourceValue: sourceEntry.value,
+        targetValue: targetEntry.value,
+        ...(altered && { suggestion: targetEntry.value.split(altered).join(token) })
+      });
+    }
+  }
+
+  return issues;
+}
+
+function isICUMessage(value: string): boolean {
+  return value.includes('{') && (
+    value.includes(', plural,') ||
+    value.includes(', select,') ||
+    value.includes(', selectordinal,')
+  );
+}
+
+// plural, selectordinal and select nodes, including those nested in cases
+function complexNodes(tokens: Token[]): Select[] {
+  const nodes: Select[] = [];
+  for (const token of tokens) {
+    if (!('cases' in token)) continue;
+    nodes.push(token);
+    for (const option of token.cases) {
+      nodes.push(...complexNodes(option.tokens));
+    }
+  }
+  return nodes;
+}
+
+function complexArguments(tokens: Token[]): string[] {
+  return Array.from(new Set(complexNodes(tokens).map(node => `{${node.arg}, ${node.type}}`)));
+}
+
+// Checks a node's case keys against what its type needs: `other` always, and
+// for plural/selectordinal the CLDR categories of the target locale. Exact
+// matches (=0, =1) may stand in for a category that selects only those numbers,
+// like English `one`, but not for Russian `one` (1, 21, 31, ...).
+function checkCases(node: Select, locale: string): Array<Pick<ValidationIssue, 'message' | 'severity'>> {
+  const problems: Array<Pick<ValidationIssue, 'message' | 'severity'>> = [];
+  const argument = `{${node.arg}, ${node.type}}`;
+  const keys = node.cases.map(option => option.key);
+
+  if (!keys.includes('other')) {
+    problems.push({ message: `${argument} has no "other" case`, severity: 'error' });
+  }
+  if (node.type === 'select') return problems;
+
+  const categories = ICUPlural.categories(locale, node.type as PluralKind);
+  if (!categories) return problems;
+
+  const exact = new Set(keys.filter(key => key.startsWith('=')).map(key => Number(key.slice(1))));
+  const categoryKeys = keys.filter(key => !key.startsWith('='));
+
+  const missing = Array.from(categories)
+    .filter(([category, numbers]) =>
+      category !== 'other' && numbers.length > 0 && !categoryKeys.includes(category) && !numbers.every(n => exact.has(n)))
+    .map(([category]) => category);
+  if (missing.length > 0) {
+    problems.push({
+      message: `${argument} is missing ${missing.map(category => `"${category}"`).join(', ')}, required for ${locale}`,
+      severity: 'error'
+    });
+  }
+
+  // The parser has already rejected keys that are not plural categories at all
+  for (const key of categoryKeys) {
+    if (!categories.has(key)) {
+      problems.push({ message: `${argument} case "${key}" is never selected in ${locale}`, severity: 'warning' });
+    }
+  }
+
+  return problems;
+}
+
+function extractPlaceholders(value: string, format: FormatName): string[] {
+  if (format === 'ftl') {
+    return FluentFormat.references(value);
+  }
+
+  return ICUArguments.names(value);
+}
+
+// In the order their issues are reported. Each is named after the issue type
+// it produces, so `rules: { "duplicate": "off" }` reads naturally in config.
+export const BUILTIN_RULES: ValidationRule[] = [
+  {
+    name: 'missing',
+    description: 'Source keys the target locale does not have',
+    check: checkMissingKeys
+  },
+  {
+    name: 'extra',
+    description: 'Target keys that are not in the source locale',
+    check: checkExtraKeys
+  },
+  {
+    name: 'duplicate',
+    description: 'Keys sharing a value with an earlier key',
+    check: targetFile => checkDuplicates(targetFile)
+  },
+  {
+    name: 'placeholderMismatch',
+    description: 'Placeholders that differ from the source message',
+    check: checkPlaceholders
+  },
+  {
+    name: 'icuError',
+    description: 'Invalid ICU or Fluent syntax, arguments that differ from the source, or plural cases the target locale needs or never uses',
+    check: (targetFile, sourceFile) => [
+      ...checkICUMessages(targetFile, sourceFile),
+      ...(targetFile.format === 'ftl' ? checkFluentMessages(targetFile, sourceFile) : [])
+    ]
+  },
+  {
+    name: 'markupMismatch',
+    description: 'Tags that are unbalanced, or whose set and nesting differ from the source',
+    check: checkMarkup
+  },
+  {
+    name: 'glossary',
+    description: 'Glossary terms in the source whose mandated translation the target lacks',
+    check: checkGlossary
+  },
+  {
+    name: 'doNotTranslate',
+    description: 'doNotTranslate tokens from the source that the target altered or dropped',
+    check: checkDoNotTranslate
+  },
+  {
+    name: 'untranslated',
+    description: 'Values identical to the source outside untranslatedOptions and doNotTranslate',
+    check: checkUntranslated
+  },
+  {
+    name: 'lengthOverflow',
+    description: 'Values longer than their x-maxLength, or than lengthOptions allows relative to the source',
+    check: checkLength
+  },
+  {
+    name: 'formatting',
+    description: 'Stray whitespace',
+    check: targetFile => checkFormatting(targetFile)
+  },
+  {
+    name: 'localeMismatch',
+    description: 'ARB @@locale that disagrees with the file name',
+    // The template too, reported once under its own locale
+    check: (targetFile, sourceFile) => Array.from(new Set([targetFile, sourceFile]))
+      .filter(file => file.format === 'arb')
+      .flatMap(checkDeclaredLocale)
+  },
+  {
+    name: 'genL10n',
+    description: 'ARB content flutter gen-l10n would reject',
+    // Placeholder declarations live in the template, so this needs an ARB source
+    check: (targetFile, sourceFile) =>
+      targetFile.format === 'arb' && sourceFile.format === 'arb' ? GenL10n.check(targetFile, sourceFile) : []
+  }
+];
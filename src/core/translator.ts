@@ -1,6 +1,9 @@
 import { GoogleGenerativeAI } from '@google/generative-ai';
 import pLimit from 'p-limit';
-import { LocalzConfig, Translation, LocaleFile } from '../types';
+import { LocalzConfig, Translation, LocaleFile, ValidationIssue } from '../types';
+import { ICUArguments } from '../utils/icu-arguments';
+import { Markup } from '../utils/markup';
+import { Glossary } from '../utils/glossary';
 
 export class Translator {
   private genAI: GoogleGenerativeAI;
@@ -43,9 +46,11 @@ export class Translator {
     keys: string[]
   ): Promise<Translation[]> {
     const translations: Translation[] = [];
+    // Tags go out as numbered stand-ins and are put back before validation
+    const protectedValues = new Map(keys.map(key => [key, Markup.protect(sourceFile.entries[key]?.value || '')]));
     const entries = keys.map(key => ({
       key,
-      value: sourceFile.entries[key]?.value || '',
+      value: protectedValues.get(key)!.text,
       metadata: sourceFile.entries[key]?.metadata
     }));
 
@@ -60,9 +65,19 @@ export class Translator {
       
       for (const key of keys) {
         const sourceValue = sourceFile.entries[key]?.value || '';
-        const translatedValue = parsed[key] || '';
+        const translatedValue = Markup.restore(parsed[key] || '', protectedValues.get(key)!.tags);
         
         const validation = this.validateTranslation(sourceValue, translatedValue);
+        const markupError = Markup.compare(sourceValue, translatedValue);
+        const markupIssues: ValidationIssue[] = markupError ? [{
+          type: 'markupMismatch',
+          locale: targetLocale,
+          key,
+          message: markupError,
+          severity: 'error',
+          sourceValue,
+          targetValue: translatedValue
+        }] : [];
         
         translations.push({
           locale: targetLocale,
@@ -70,7 +85,9 @@ export class Translator {
           sourceValue,
           translatedValue,
           placeholdersPreserved: validation.placeholdersPreserved,
-          glossaryApplied: this.checkGlossaryApplication(translatedValue)
+          markupPreserved: !markupError,
+          glossaryApplied: this.checkGlossaryApplication(translatedValue, targetLocale),
+          ...(markupIssues.length > 0 && { issues: markupIssues })
         });
       }
     } catch (error) {
@@ -82,7 +99,8 @@ export class Translator {
           key,
           sourceValue: sourceFile.entries[key]?.value || '',
           translatedValue: 'TRANSLATION_ERROR',
-          placeholdersPreserved: false
+          placeholdersPreserved: false,
+          markupPreserved: false
         });
       }
     }
@@ -95,8 +113,9 @@ export class Translator {
     targetLocale: string,
     entries: Array<{ key: string; value: string; metadata?: any }>
   ): string {
-    const glossarySection = this.config.domainGlossary
-      ? `\nDomain Glossary:\n${JSON.stringify(this.config.domainGlossary, null, 2)}`
+    const glossary = Glossary.forLocale(this.config.domainGlossary, targetLocale);
+    const glossarySection = Object.keys(glossary).length > 0
+      ? `\nDomain Glossary:\n${JSON.stringify(glossary, null, 2)}`
       : '';
 
     const doNotTranslateSection = this.config.doNotTranslate
@@ -125,8 +144,9 @@ CRITICAL RULES:
 1. Preserve ALL placeholders exactly as they appear (e.g., {name}, {count})
 2. Maintain ICU message format structure (plural, select, etc.)
 3. Only translate the actual text content, not placeholders or ICU syntax
-4. Keep translations concise and appropriate for UI elements
-5. Return ONLY valid JSON with translated values
+4. Keep numbered tags such as <0>...</0> and <1/> exactly as written; move them with the words they wrap, never drop or add any
+5. Keep translations concise and appropriate for UI elements
+6. Return ONLY valid JSON with translated values
 
 ${glossarySection}
 ${doNotTranslateSection}
@@ -168,8 +188,8 @@ Example: {"key1": "translated text", "key2": "another translation"}`;
     sourceValue: string,
     translatedValue: string
   ): { placeholdersPreserved: boolean; issues: string[] } {
-    const sourcePlaceholders = this.extractPlaceholders(sourceValue);
-    const translatedPlaceholders = this.extractPlaceholders(translatedValue);
+    const sourcePlaceholders = ICUArguments.names(sourceValue);
+    const translatedPlaceholders = ICUArguments.names(translatedValue);
     
     const sourceSet = new Set(sourcePlaceholders);
     const translatedSet = new Set(translatedPlaceholders);
@@ -193,12 +213,12 @@ Example: {"key1": "translated text", "key2": "another translation"}`;
     return { placeholdersPreserved, issues };
   }
 
-  private checkGlossaryApplication(translatedValue: string): string[] | undefined {
+  private checkGlossaryApplication(translatedValue: string, targetLocale: string): string[] | undefined {
     if (!this.config.domainGlossary) return undefined;
     
     const applied: string[] = [];
-    for (const [term, translation] of Object.entries(this.config.domainGlossary)) {
-      if (translatedValue.includes(translation)) {
+    for (const [term, translation] of Object.entries(Glossary.forLocale(this.config.domainGlossary, targetLocale))) {
+      if (Glossary.contains(translatedValue, translation, targetLocale, this.config.glossaryOptions)) {
         applied.push(term);
       }
     }
@@ -213,16 +233,4 @@ Example: {"key1": "translated text", "key2": "another translation"}`;
     }
     return chunks;
   }
-
-  private extractPlaceholders(value: string): string[] {
-    const placeholderRegex = /\{([^}]+)\}/g;
-    const placeholders: string[] = [];
-    let match;
-
-    while ((match = placeholderRegex.exec(value)) !== null) {
-      placeholders.push(match[1]);
-    }
-
-    return placeholders;
-  }
 }
\ No newline at end of file
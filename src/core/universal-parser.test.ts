@@ -0,0 +1,53 @@
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { UniversalParser } from './universal-parser';
+import { LocalzConfig } from '../types';
+
+const config = { sourceLocale: 'en', targetLocales: ['de'], fileFormat: 'auto' } as unknown as LocalzConfig;
+const strings = '/* Greeting */\n"hello" = "Hello";\n';
+
+let directory: string;
+
+beforeEach(async () => {
+  directory = await mkdtemp(path.join(os.tmpdir(), 'universal-parser-'));
+  await mkdir(path.join(directory, 'en.lproj'));
+});
+
+afterEach(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+// Writes `bytes`, parses the file, changes its value and writes it back
+async function rewrite(bytes: Buffer): Promise<Buffer> {
+  const filePath = path.join(directory, 'en.lproj', 'Localizable.strings');
+  await writeFile(filePath, bytes);
+
+  const parser = new UniversalParser(config);
+  const file = await parser.parseFile(filePath);
+  expect(file.entries.hello.value).toBe('Hello');
+  file.entries.hello.value = 'Hi';
+  await parser.writeFile(file);
+  return readFile(filePath);
+}
+
+describe('UniversalParser', () => {
+  it('writes UTF-16 files back as UTF-16 with their byte order mark', async () => {
+    const little = await rewrite(Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from(strings, 'utf16le')]));
+    expect([...little.subarray(0, 2)]).toEqual([0xff, 0xfe]);
+    expect(little.toString('utf16le', 2)).toBe(strings.replace('Hello', 'Hi'));
+
+    const big = await rewrite(Buffer.concat([Buffer.from([0xfe, 0xff]), Buffer.from(strings, 'utf16le').swap16()]));
+    expect([...big.subarray(0, 2)]).toEqual([0xfe, 0xff]);
+    expect(Buffer.from(big.subarray(2)).swap16().toString('utf16le')).toBe(strings.replace('Hello', 'Hi'));
+  });
+
+  it('keeps a UTF-8 byte order mark only where there was one', async () => {
+    const withBom = await rewrite(Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from(strings)]));
+    expect(withBom.toString('utf-8')).toBe('\uFEFF' + strings.replace('Hello', 'Hi'));
+
+    const plain = await rewrite(Buffer.from(strings));
+    expect(plain.toString('utf-8')).toBe(strings.replace('Hello', 'Hi'));
+  });
+});
@@ -1,10 +1,10 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import glob from 'fast-glob';
-import * as YAML from 'yaml';
-import { parse as csvParse } from 'csv-parse/sync';
-import { stringify as csvStringify } from 'csv-stringify/sync';
-import { LocaleFile, LocaleEntry, LocaleFileFormat, LocalzConfig } from '../types';
+import { FormatAdapter, FormatName, LocaleFile, LocalzConfig, TextEncoding } from '../types';
+import { FormatRegistry } from './format-registry';
+import { LocaleNamespaces } from './namespaces';
+import { LocaleTag } from '../utils/locale-tag';
 
 export class UniversalParser {
   private config: LocalzConfig;
@@ -13,41 +13,12 @@ export class UniversalParser {
     this.config = config;
   }
 
-  static detectFormat(filePath: string): LocaleFileFormat {
-    const ext = path.extname(filePath).toLowerCase();
-    switch (ext) {
-      case '.arb':
-        return 'arb';
-      case '.json':
-        return 'json';
-      case '.yaml':
-      case '.yml':
-        return 'yaml';
-      case '.csv':
-        return 'csv';
-      case '.tsv':
-        return 'tsv';
-      default:
-        return 'json'; // Default fallback
-    }
+  static detectFormat(filePath: string): FormatName {
+    return FormatRegistry.detect(filePath)?.name || 'json'; // Default fallback
   }
 
-  static getFilePatterns(format: LocaleFileFormat | 'auto'): string[] {
-    switch (format) {
-      case 'arb':
-        return ['**/*.arb'];
-      case 'json':
-        return ['**/*.json'];
-      case 'yaml':
-        return ['**/*.yaml', '**/*.yml'];
-      case 'csv':
-        return ['**/*.csv'];
-      case 'tsv':
-        return ['**/*.tsv'];
-      case 'auto':
-      default:
-        return ['**/*.arb', '**/*.json', '**/*.yaml', '**/*.yml', '**/*.csv', '**/*.tsv'];
-    }
+  static getFilePatterns(format: FormatName | 'auto'): string[] {
+    return FormatRegistry.patterns(format);
   }
 
   async discoverFiles(basePath: string): Promise<string[]> {
@@ -65,329 +36,117 @@ export class UniversalParser {
     return files.sort();
   }
 
+  // CSV/TSV tables, string catalogs and Rails YAML files may hold several locales
   async parseAllLocalesFromFile(filePath: string): Promise<LocaleFile[]> {
-    const format = UniversalParser.detectFormat(filePath);
-    
-    if (format === 'csv' || format === 'tsv') {
-      const content = await fs.readFile(filePath, 'utf-8');
-      const delimiter = format === 'tsv' ? '\t' : (this.config.csvOptions?.delimiter || ',');
-      const records = csvParse(content, { 
-        delimiter, 
-        columns: true,
-        skip_empty_lines: true 
-      });
-      
-      const locales: LocaleFile[] = [];
-      
-      // Find all locale columns
-      const allLocales = new Set<string>();
-      if (records.length > 0) {
-        const columns = Object.keys(records[0]);
-        for (const column of columns) {
-          if (column !== (this.config.csvOptions?.keyColumn || 'key') && 
-              column !== 'description' && 
-              column !== 'context') {
-            allLocales.add(column);
-          }
-        }
-      }
-      
-      // Create a LocaleFile for each locale
-      for (const locale of allLocales) {
-        if (this.config.sourceLocale === locale || this.config.targetLocales.includes(locale)) {
-          const entries = this.parseCsvEntries(records, locale);
-          const stats = await fs.stat(filePath);
-          
-          locales.push({
-            locale,
-            path: filePath,
-            format,
-            entries,
-            raw: { records, locale },
-            lastModified: stats.mtime
-          });
-        }
-      }
-      
-      return locales;
-    } else {
-      // For non-CSV files, return single locale
-      const localeFile = await this.parseFile(filePath);
-      return [localeFile];
+    const adapter = FormatRegistry.get(UniversalParser.detectFormat(filePath));
+    const locales = adapter.locales
+      ? await adapter.locales((await this.readText(filePath)).text, { config: this.config, filePath })
+      : null;
+
+    if (locales === null) {
+      return [await this.parseFile(filePath)];
+    }
+
+    const localeFiles: LocaleFile[] = [];
+    for (const locale of locales) {
+      localeFiles.push(await this.parseFile(filePath, locale));
     }
+    return localeFiles;
   }
 
   async parseFile(filePath: string, targetLocale?: string): Promise<LocaleFile> {
-    const format = UniversalParser.detectFormat(filePath);
-    const content = await fs.readFile(filePath, 'utf-8');
-    const locale = targetLocale || this.extractLocale(filePath, format);
+    const adapter = FormatRegistry.get(UniversalParser.detectFormat(filePath));
+    const { text: content, encoding } = await this.readText(filePath);
+    const locale = targetLocale || this.extractLocale(filePath, adapter);
 
-    let raw: Record<string, any>;
-    let entries: Record<string, LocaleEntry> = {};
-
-    switch (format) {
-      case 'arb':
-      case 'json':
-        raw = JSON.parse(content);
-        entries = this.parseJsonEntries(raw);
-        break;
-      
-      case 'yaml':
-        raw = YAML.parse(content) || {};
-        entries = this.parseYamlEntries(raw, locale);
-        break;
-      
-      case 'csv':
-      case 'tsv':
-        const delimiter = format === 'tsv' ? '\t' : (this.config.csvOptions?.delimiter || ',');
-        const records = csvParse(content, { 
-          delimiter, 
-          columns: true,
-          skip_empty_lines: true 
-        });
-        raw = { records, locale };
-        entries = this.parseCsvEntries(records, locale);
-        break;
-      
-      default:
-        throw new Error(`Unsupported file format: ${format}`);
-    }
+    const { entries, raw, locale: declaredLocale } = await adapter.parse(content, {
+      config: this.config,
+      filePath,
+      locale,
+      requested: targetLocale !== undefined
+    });
 
     const stats = await fs.stat(filePath);
     return {
-      locale,
+      locale: declaredLocale || locale,
       path: filePath,
-      format,
+      format: adapter.name,
       entries,
       raw,
-      lastModified: stats.mtime
+      lastModified: stats.mtime,
+      encoding
     };
   }
 
-  private parseJsonEntries(raw: Record<string, any>): Record<string, LocaleEntry> {
-    const entries: Record<string, LocaleEntry> = {};
-    const metadataPrefix = '@';
-
-    for (const [key, value] of Object.entries(raw)) {
-      if (key.startsWith(metadataPrefix)) continue;
-      if (key.startsWith('@@')) continue; // Skip ARB locale markers
-      
-      const entry: LocaleEntry = {
-        key,
-        value: String(value)
-      };
+  private async readText(filePath: string): Promise<{ text: string; encoding: TextEncoding }> {
+    const buffer = await fs.readFile(filePath);
 
-      // Check for ARB-style metadata
-      const metadataKey = `${metadataPrefix}${key}`;
-      if (raw[metadataKey]) {
-        const metadata = raw[metadataKey];
-        entry.metadata = metadata;
-        entry.description = metadata.description;
-        entry.placeholders = metadata.placeholders;
-      }
-
-      entries[key] = entry;
+    // Xcode and Visual Studio resources are frequently saved as UTF-16
+    if (buffer[0] === 0xff && buffer[1] === 0xfe) {
+      return { text: buffer.toString('utf16le', 2), encoding: { charset: 'utf-16le', bom: true } };
     }
-
-    return entries;
-  }
-
-  private parseYamlEntries(raw: Record<string, any>, _locale: string): Record<string, LocaleEntry> {
-    const entries: Record<string, LocaleEntry> = {};
-
-    // Handle nested YAML structures
-    const flatten = (obj: any, prefix = ''): void => {
-      for (const [key, value] of Object.entries(obj)) {
-        const fullKey = prefix ? `${prefix}.${key}` : key;
-        
-        if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
-          // Check if it's a translation entry with metadata
-          const valueObj = value as any;
-          if (valueObj.value !== undefined) {
-            entries[fullKey] = {
-              key: fullKey,
-              value: String(valueObj.value),
-              description: valueObj.description,
-              context: valueObj.context,
-              tags: valueObj.tags,
-              metadata: valueObj
-            };
-          } else {
-            flatten(value, fullKey);
-          }
-        } else {
-          entries[fullKey] = {
-            key: fullKey,
-            value: String(value)
-          };
-        }
-      }
-    };
-
-    flatten(raw);
-    return entries;
-  }
-
-  private parseCsvEntries(records: any[], locale: string): Record<string, LocaleEntry> {
-    const entries: Record<string, LocaleEntry> = {};
-    const keyColumn = this.config.csvOptions?.keyColumn || 'key';
-    const valueColumns = this.config.csvOptions?.valueColumns || { [locale]: locale };
-    const valueColumn = valueColumns[locale] || locale;
-
-    for (const record of records) {
-      const key = record[keyColumn];
-      const value = record[valueColumn];
-      
-      if (key && value) {
-        entries[key] = {
-          key,
-          value: String(value),
-          description: record.description,
-          context: record.context,
-          tags: record.tags ? record.tags.split(',').map((t: string) => t.trim()) : undefined,
-          metadata: record
-        };
-      }
+    if (buffer[0] === 0xfe && buffer[1] === 0xff) {
+      return { text: Buffer.from(buffer.subarray(2)).swap16().toString('utf16le'), encoding: { charset: 'utf-16be', bom: true } };
     }
-
-    return entries;
-  }
-
-  async writeFile(localeFile: LocaleFile): Promise<void> {
-    let content: string;
-
-    switch (localeFile.format) {
-      case 'arb':
-      case 'json':
-        content = this.generateJsonContent(localeFile);
-        break;
-      
-      case 'yaml':
-        content = this.generateYamlContent(localeFile);
-        break;
-      
-      case 'csv':
-      case 'tsv':
-        content = this.generateCsvContent(localeFile);
-        break;
-      
-      default:
-        throw new Error(`Unsupported file format: ${localeFile.format}`);
+    if (buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) {
+      return { text: buffer.toString('utf-8', 3), encoding: { charset: 'utf-8', bom: true } };
     }
 
-    await fs.writeFile(localeFile.path, content, 'utf-8');
+    return { text: buffer.toString('utf-8'), encoding: { charset: 'utf-8', bom: false } };
   }
 
-  private generateJsonContent(localeFile: LocaleFile): string {
-    const output: Record<string, any> = {};
-    
-    // Preserve special keys like @@locale for ARB files
-    if (localeFile.format === 'arb' && localeFile.raw['@@locale']) {
-      output['@@locale'] = localeFile.raw['@@locale'];
-    }
-
-    const keys = Object.keys(localeFile.entries);
-    if (this.config.preferOrder === 'alphabetical') {
-      keys.sort();
-    }
-
-    for (const key of keys) {
-      const entry = localeFile.entries[key];
-      output[key] = entry.value;
-
-      // Add metadata for ARB files
-      if (localeFile.format === 'arb' && (entry.metadata || entry.description || entry.placeholders)) {
-        const metadata: any = {};
-        if (entry.description) metadata.description = entry.description;
-        if (entry.placeholders) metadata.placeholders = entry.placeholders;
-        if (entry.metadata) Object.assign(metadata, entry.metadata);
-        
-        if (Object.keys(metadata).length > 0) {
-          output[`@${key}`] = metadata;
-        }
-      }
-    }
+  // The inverse of readText
+  private static encode(text: string, encoding: TextEncoding = { charset: 'utf-8', bom: false }): Buffer {
+    const content = encoding.bom ? '\uFEFF' + text.replace(/^\uFEFF/, '') : text;
+    if (encoding.charset === 'utf-8') return Buffer.from(content, 'utf-8');
 
-    return JSON.stringify(output, null, 2) + '\n';
+    const buffer = Buffer.from(content, 'utf16le');
+    return encoding.charset === 'utf-16be' ? buffer.swap16() : buffer;
   }
 
-  private generateYamlContent(localeFile: LocaleFile): string {
-    const output: Record<string, any> = {};
-
-    for (const [key, entry] of Object.entries(localeFile.entries)) {
-      const keyParts = key.split('.');
-      let current = output;
-
-      for (let i = 0; i < keyParts.length - 1; i++) {
-        if (!current[keyParts[i]]) {
-          current[keyParts[i]] = {};
-        }
-        current = current[keyParts[i]];
-      }
-
-      const finalKey = keyParts[keyParts.length - 1];
-      
-      if (entry.description || entry.context || entry.tags || entry.metadata) {
-        current[finalKey] = {
-          value: entry.value,
-          ...(entry.description && { description: entry.description }),
-          ...(entry.context && { context: entry.context }),
-          ...(entry.tags && { tags: entry.tags })
-        };
-      } else {
-        current[finalKey] = entry.value;
+  async writeFile(localeFile: LocaleFile): Promise<void> {
+    if (localeFile.raw?.namespaces) {
+      for (const namespaceFile of LocaleNamespaces.split(localeFile)) {
+        await this.writeFile(namespaceFile);
       }
+      return;
     }
 
-    return YAML.stringify(output, { indent: 2 });
-  }
-
-  private generateCsvContent(localeFile: LocaleFile): string {
-    const delimiter = localeFile.format === 'tsv' ? '\t' : (this.config.csvOptions?.delimiter || ',');
-    const keyColumn = this.config.csvOptions?.keyColumn || 'key';
-    const valueColumn = this.config.csvOptions?.valueColumns?.[localeFile.locale] || localeFile.locale;
-
-    const records = Object.values(localeFile.entries).map(entry => ({
-      [keyColumn]: entry.key,
-      [valueColumn]: entry.value,
-      ...(entry.description && { description: entry.description }),
-      ...(entry.context && { context: entry.context }),
-      ...(entry.tags && { tags: entry.tags.join(', ') })
-    }));
+    const adapter = FormatRegistry.get(localeFile.format);
+    const existing = await this.readExisting(localeFile.path);
+    const content = await adapter.serialize(localeFile, existing, { config: this.config, filePath: localeFile.path });
 
-    return csvStringify(records, { 
-      delimiter, 
-      header: true,
-      quoted_string: true 
-    });
+    await fs.mkdir(path.dirname(localeFile.path), { recursive: true });
+    await fs.writeFile(localeFile.path, UniversalParser.encode(content, localeFile.encoding));
   }
 
-  private extractLocale(filePath: string, _format: LocaleFileFormat): string {
-    const basename = path.basename(filePath, path.extname(filePath));
-    
-    // Different naming conventions
-    const patterns = [
-      // Flutter ARB: app_en.arb, strings_es.arb
-      /^(.+)_([a-z]{2}(?:_[A-Z]{2})?)$/,
-      // i18n JSON: en.json, es-ES.json
-      /^([a-z]{2}(?:[-_][A-Z]{2})?)$/,
-      // Localized folders: en/strings.json, es/app.json
-      /^([a-z]{2}(?:[-_][A-Z]{2})?)[\\/](.+)$/
-    ];
-
-    for (const pattern of patterns) {
-      const match = basename.match(pattern);
-      if (match) {
-        return match[match.length - 1].replace('-', '_');
-      }
+  private async readExisting(filePath: string): Promise<string | null> {
+    try {
+      return (await this.readText(filePath)).text;
+    } catch {
+      return null;
     }
+  }
 
-    // Check parent directory for locale
-    const parentDir = path.basename(path.dirname(filePath));
-    if (/^[a-z]{2}(?:[-_][A-Z]{2})?$/.test(parentDir)) {
-      return parentDir.replace('-', '_');
+  private extractLocale(filePath: string, adapter: FormatAdapter): string {
+    const fromPath = adapter.localeFromPath?.(filePath, this.config);
+    if (fromPath) return fromPath;
+
+    // The file name (app_zh_Hant_TW.arb, es-419.json), then each parent
+    // directory (locales/pt-BR/auth/login.json)
+    const candidates: string[] = [];
+    const fromName = LocaleTag.fromName(path.basename(filePath, path.extname(filePath)));
+    if (fromName) candidates.push(fromName);
+
+    let directory = path.dirname(filePath);
+    while (directory !== path.dirname(directory)) {
+      const dirName = path.basename(directory);
+      if (LocaleTag.isKnown(dirName)) candidates.push(LocaleTag.canonicalize(dirName));
+      directory = path.dirname(directory);
     }
 
-    return 'unknown';
+    // A configured locale wins over a name that merely looks like one (nav.json is also Navajo)
+    const configured = [this.config.sourceLocale, ...this.config.targetLocales];
+    return candidates.find(candidate => LocaleTag.find(configured, candidate)) || candidates[0] || 'unknown';
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { IGNORE_ATTRIBUTE, Validator } from './validator';
+import { RuleRegistry } from './rule-registry';
+import { LocaleEntry, LocaleFile, LocalzConfig, ValidationRule } from '../types';
+
+function localeFile(locale: string, values: Record<string, string>, metadata: Record<string, LocaleEntry['metadata']> = {}): LocaleFile {
+  const entries: Record<string, LocaleEntry> = {};
+  for (const [key, value] of Object.entries(values)) {
+    entries[key] = { key, value, ...(metadata[key] && { metadata: metadata[key] }) };
+  }
+  return { locale, path: `${locale}.json`, format: 'json', entries, raw: {} };
+}
+
+const source = localeFile('en', { 'home.title': 'Home', 'home.body': 'Body', 'auth.login': 'Log in' });
+const targets = [localeFile('de', { 'home.title': 'Start' }), localeFile('fr', { 'home.title': 'Accueil' })];
+
+function missing(config: Partial<LocalzConfig>, files = targets): Record<string, string[]> {
+  const reports = new Validator(source, files, config).validate();
+  return Object.fromEntries(Array.from(reports, ([locale, report]) => [
+    locale,
+    report.issues.filter(issue => issue.rule === 'missing').map(issue => `${issue.key}:${issue.severity}`)
+  ]));
+}
+
+describe('Validator', () => {
+  it('tags issues with their rule and keeps the rule severity by default', () => {
+    expect(missing({})).toEqual({
+      de: ['home.body:error', 'auth.login:error'],
+      fr: ['home.body:error', 'auth.login:error']
+    });
+  });
+
+  it('applies configured severities and turns rules off', () => {
+    expect(missing({ rules: { missing: 'warning' } }).de).toEqual(['home.body:warning', 'auth.login:warning']);
+    expect(missing({ rules: { missing: 'off' } })).toEqual({ de: [], fr: [] });
+  });
+
+  it('applies overrides in order by locale and key glob', () => {
+    const config: Partial<LocalzConfig> = {
+      rules: { missing: 'off' },
+      ruleOverrides: [
+        { locales: ['de'], rules: { missing: 'error' } },
+        { keys: ['home.*'], rules: { missing: 'warning' } }
+      ]
+    };
+    expect(missing(config)).toEqual({ de: ['home.body:warning', 'auth.login:error'], fr: ['home.body:warning'] });
+  });
+
+  it('honours suppressions on the target or the source entry', () => {
+    const suppressed = localeFile('en', { 'home.title': 'Home', 'home.body': 'Body', 'auth.login': 'Log in' }, {
+      'auth.login': { [IGNORE_ATTRIBUTE]: ['missing'] }
+    });
+    const reports = new Validator(suppressed, [targets[0]]).validate();
+    expect(reports.get('de')!.issues.filter(issue => issue.rule === 'missing').map(issue => issue.key)).toEqual(['home.body']);
+
+    const everything = localeFile('de', { 'home.title': 'Home' }, { 'home.title': { [IGNORE_ATTRIBUTE]: '*' } });
+    const issues = new Validator(localeFile('en', { 'home.title': 'Home' }), [everything]).validate().get('de')!.issues;
+    expect(issues).toEqual([]);
+  });
+
+  it('runs registered rules and counts their issues', () => {
+    RuleRegistry.register({
+      name: 'noExclamation',
+      check: targetFile => Object.values(targetFile.entries)
+        .filter(entry => entry.value.includes('!'))
+        .map(entry => ({ type: 'formatting', locale: targetFile.locale, key: entry.key, message: 'Exclamation mark', severity: 'warning' }))
+    });
+
+    const report = new Validator(localeFile('en', { a: 'A' }), [localeFile('de', { a: 'A!' })]).validate().get('de')!;
+    expect(report.issues.map(issue => issue.rule)).toContain('noExclamation');
+    expect(report.stats.formattingWarnings).toBe(1);
+    expect(() => RuleRegistry.register({ name: '' } as unknown as ValidationRule)).toThrow('Invalid validation rule');
+  });
+
+  it('matches key globs within and across segments', () => {
+    expect(Validator.matchesKeyGlob('home.title', 'home.*')).toBe(true);
+    expect(Validator.matchesKeyGlob('home.hero.title', 'home.*')).toBe(false);
+    expect(Validator.matchesKeyGlob('home.hero.title', 'home.**')).toBe(true);
+    expect(Validator.matchesKeyGlob('auth:login', 'auth:?ogin')).toBe(true);
+  });
+
+  it('checks @@locale in the template and the translations, listing the template once', () => {
+    const arb = (locale: string, declared: string): LocaleFile => ({
+      ...localeFile(locale, { title: 'Title' }),
+      path: `app_${locale}.arb`,
+      format: 'arb',
+      raw: { '@@locale': declared, title: 'Title' }
+    });
+    const reports = new Validator(arb('en', 'en_US'), [arb('de', 'fr'), arb('es', 'es')]).validate();
+    const mismatches = (locale: string) => reports.get(locale)!.issues
+      .filter(issue => issue.rule === 'localeMismatch')
+      .map(issue => `${issue.locale}: ${issue.message}`);
+
+    expect(mismatches('de')).toEqual([
+      'de: @@locale "fr" does not match locale "de" from app_de.arb',
+      'en: @@locale "en_US" does not match locale "en" from app_en.arb'
+    ]);
+    expect(mismatches('es')).toEqual([]);
+  });
+});
@@ -1,20 +1,39 @@
-import { parse as parseICU } from '@messageformat/parser';
-import { LocaleFile, ValidationIssue, LocaleReport } from '../types';
+import { LocaleFile, ValidationIssue, LocaleReport, LocalzConfig, RuleSeverity, ValidationRule } from '../types';
+import { RuleRegistry } from './rule-registry';
+import { LocaleNamespaces } from './namespaces';
+import { LocaleTag } from '../utils/locale-tag';
+
+// Inline suppression in entry metadata, e.g. "@key": { "x-zlocalz-ignore": ["duplicate"] }; "*" ignores every rule
+export const IGNORE_ATTRIBUTE = 'x-zlocalz-ignore';
 
 export class Validator {
   private sourceFile: LocaleFile;
   private targetFiles: LocaleFile[];
+  private config: Partial<LocalzConfig>;
 
-  constructor(sourceFile: LocaleFile, targetFiles: LocaleFile[]) {
+  constructor(sourceFile: LocaleFile, targetFiles: LocaleFile[], config: Partial<LocalzConfig> = {}) {
     this.sourceFile = sourceFile;
     this.targetFiles = targetFiles;
+    this.config = config;
   }
 
   validate(): Map<string, LocaleReport> {
     const reports = new Map<string, LocaleReport>();
+    // Problems in the source file itself carry the source locale; each is
+    // listed once, under the first target that finds it
+    const sourceIssues = new Set<string>();
 
     for (const targetFile of this.targetFiles) {
-      const issues = this.validateTarget(targetFile);
+      const issues = (this.sourceFile.raw?.namespaces
+        ? this.validateNamespaces(targetFile)
+        : this.runRules(targetFile, this.sourceFile, RuleRegistry.all())
+      ).filter(issue => {
+        if (issue.locale !== this.sourceFile.locale) return true;
+        const id = [issue.rule, issue.key, issue.message].join('\0');
+        if (sourceIssues.has(id)) return false;
+        sourceIssues.add(id);
+        return true;
+      });
       const stats = this.calculateStats(issues);
 
       reports.set(targetFile.locale, {
@@ -28,227 +47,89 @@ export class Validator {
     return reports;
   }
 
-  private validateTarget(targetFile: LocaleFile): ValidationIssue[] {
-    const issues: ValidationIssue[] = [];
-
-    issues.push(...this.checkMissingKeys(targetFile));
-    issues.push(...this.checkExtraKeys(targetFile));
-    issues.push(...this.checkDuplicates(targetFile));
-    issues.push(...this.checkPlaceholders(targetFile));
-    issues.push(...this.checkICUMessages(targetFile));
-    issues.push(...this.checkFormatting(targetFile));
-
-    return issues;
-  }
-
-  private checkMissingKeys(targetFile: LocaleFile): ValidationIssue[] {
+  // Each namespace is checked on its own, so e.g. the same label in
+  // common.json and auth.json is not reported as a duplicate
+  private validateNamespaces(targetFile: LocaleFile): ValidationIssue[] {
     const issues: ValidationIssue[] = [];
-    const sourceKeys = Object.keys(this.sourceFile.entries);
-    const targetKeys = new Set(Object.keys(targetFile.entries));
-
-    for (const key of sourceKeys) {
-      if (!targetKeys.has(key)) {
-        issues.push({
-          type: 'missing',
-          locale: targetFile.locale,
-          key,
-          message: `Key "${key}" is missing`,
-          severity: 'error',
-          sourceValue: this.sourceFile.entries[key].value
-        });
-      }
+    const namespaces = new Set([
+      ...LocaleNamespaces.namespaces(this.sourceFile),
+      ...LocaleNamespaces.namespaces(targetFile)
+    ]);
+
+    for (const namespace of namespaces) {
+      const source = LocaleNamespaces.pick(this.sourceFile, namespace);
+      const target = LocaleNamespaces.pick(targetFile, namespace);
+      issues.push(...this.runRules(target, source, RuleRegistry.all()));
     }
 
-    return issues;
-  }
-
-  private checkExtraKeys(targetFile: LocaleFile): ValidationIssue[] {
-    const issues: ValidationIssue[] = [];
-    const sourceKeys = new Set(Object.keys(this.sourceFile.entries));
-    const targetKeys = Object.keys(targetFile.entries);
-
-    for (const key of targetKeys) {
-      if (!sourceKeys.has(key)) {
-        issues.push({
-          type: 'extra',
-          locale: targetFile.locale,
-          key,
-          message: `Key "${key}" not in source locale`,
-          severity: 'warning',
-          targetValue: targetFile.entries[key].value
-        });
-      }
+    // Merged files carry no @@locale of their own; each ARB file is checked instead
+    for (const file of Object.values<LocaleFile>(targetFile.raw?.namespaces || {})) {
+      issues.push(...this.runRules(file, file, [RuleRegistry.get('localeMismatch')]));
     }
-
-    return issues;
-  }
-
-  private checkDuplicates(targetFile: LocaleFile): ValidationIssue[] {
-    const issues: ValidationIssue[] = [];
-    const seenValues = new Map<string, string[]>();
-
-    for (const [key, entry] of Object.entries(targetFile.entries)) {
-      const value = entry.value.trim();
-      if (!seenValues.has(value)) {
-        seenValues.set(value, []);
-      }
-      seenValues.get(value)!.push(key);
-    }
-
-    for (const [value, keys] of seenValues.entries()) {
-      if (keys.length > 1) {
-        for (let i = 1; i < keys.length; i++) {
-          issues.push({
-            type: 'duplicate',
-            locale: targetFile.locale,
-            key: keys[i],
-            message: `Duplicate value with key "${keys[0]}"`,
-            severity: 'warning',
-            targetValue: value,
-            suggestion: `Remove duplicate or differentiate from "${keys[0]}"`
-          });
-        }
-      }
+    for (const file of Object.values<LocaleFile>(this.sourceFile.raw?.namespaces || {})) {
+      issues.push(...this.runRules(file, file, [RuleRegistry.get('localeMismatch')]));
     }
 
     return issues;
   }
 
-  private checkPlaceholders(targetFile: LocaleFile): ValidationIssue[] {
+  private runRules(targetFile: LocaleFile, sourceFile: LocaleFile, rules: ValidationRule[]): ValidationIssue[] {
     const issues: ValidationIssue[] = [];
 
-    for (const key of Object.keys(this.sourceFile.entries)) {
-      if (!targetFile.entries[key]) continue;
-
-      const sourcePlaceholders = this.extractPlaceholders(this.sourceFile.entries[key].value);
-      const targetPlaceholders = this.extractPlaceholders(targetFile.entries[key].value);
-
-      // const sourcePSet = new Set(sourcePlaceholders);
-      const targetPSet = new Set(targetPlaceholders);
+    for (const rule of rules) {
+      if (this.isDisabled(rule.name)) continue;
 
-      if (sourcePlaceholders.length !== targetPlaceholders.length ||
-          !sourcePlaceholders.every(p => targetPSet.has(p))) {
-        issues.push({
-          type: 'placeholderMismatch',
-          locale: targetFile.locale,
-          key,
-          message: `Placeholder mismatch: expected [${sourcePlaceholders.join(', ')}], found [${targetPlaceholders.join(', ')}]`,
-          severity: 'error',
-          sourceValue: this.sourceFile.entries[key].value,
-          targetValue: targetFile.entries[key].value
-        });
+      for (const issue of rule.check(targetFile, sourceFile, this.config)) {
+        const severity = this.severityFor(rule.name, issue);
+        if (severity === 'off' || this.isSuppressed(rule.name, issue, targetFile, sourceFile)) continue;
+        issues.push({ ...issue, rule: rule.name, ...(severity && { severity }) });
       }
     }
 
     return issues;
   }
 
-  private checkICUMessages(targetFile: LocaleFile): ValidationIssue[] {
-    const issues: ValidationIssue[] = [];
-
-    for (const key of Object.keys(this.sourceFile.entries)) {
-      if (!targetFile.entries[key]) continue;
-
-      const sourceValue = this.sourceFile.entries[key].value;
-      const targetValue = targetFile.entries[key].value;
-
-      if (this.isICUMessage(sourceValue)) {
-        try {
-          const sourceAST = parseICU(sourceValue);
-          const targetAST = parseICU(targetValue);
-
-          if (!this.compareICUStructure(sourceAST, targetAST)) {
-            issues.push({
-              type: 'icuError',
-              locale: targetFile.locale,
-              key,
-              message: 'ICU structure mismatch with source',
-              severity: 'error',
-              sourceValue,
-              targetValue
-            });
-          }
-        } catch (error) {
-          issues.push({
-            type: 'icuError',
-            locale: targetFile.locale,
-            key,
-            message: `Invalid ICU message: ${error}`,
-            severity: 'error',
-            targetValue
-          });
-        }
-      }
-    }
-
-    return issues;
+  // Off in `rules` and not switched back on by any override, so not worth running
+  private isDisabled(rule: string): boolean {
+    return this.config.rules?.[rule] === 'off' &&
+      !(this.config.ruleOverrides || []).some(override => override.rules[rule] !== undefined && override.rules[rule] !== 'off');
   }
 
-  private checkFormatting(targetFile: LocaleFile): ValidationIssue[] {
-    const issues: ValidationIssue[] = [];
-
-    for (const [key, entry] of Object.entries(targetFile.entries)) {
-      const value = entry.value;
+  // `rules`, then every matching override in order; undefined keeps the rule's own severity
+  private severityFor(rule: string, issue: ValidationIssue): RuleSeverity | undefined {
+    let severity = this.config.rules?.[rule];
 
-      if (value !== value.trim()) {
-        issues.push({
-          type: 'formatting',
-          locale: targetFile.locale,
-          key,
-          message: 'Value has leading or trailing whitespace',
-          severity: 'warning',
-          targetValue: value,
-          suggestion: value.trim()
-        });
-      }
-
-      if (value.includes('  ')) {
-        issues.push({
-          type: 'formatting',
-          locale: targetFile.locale,
-          key,
-          message: 'Value contains multiple consecutive spaces',
-          severity: 'warning',
-          targetValue: value,
-          suggestion: value.replace(/\s+/g, ' ')
-        });
-      }
+    for (const override of this.config.ruleOverrides || []) {
+      if (override.rules[rule] === undefined) continue;
+      if (override.locales && LocaleTag.find(override.locales, issue.locale) === undefined) continue;
+      if (override.keys && !override.keys.some(glob => Validator.matchesKeyGlob(issue.key, glob))) continue;
+      severity = override.rules[rule];
     }
 
-    return issues;
+    return severity;
   }
 
-  private isICUMessage(value: string): boolean {
-    return value.includes('{') && (
-      value.includes(', plural,') ||
-      value.includes(', select,') ||
-      value.includes(', selectordinal,')
-    );
+  // Suppressions may sit on the target entry or, for every locale at once, on the source entry
+  private isSuppressed(rule: string, issue: ValidationIssue, targetFile: LocaleFile, sourceFile: LocaleFile): boolean {
+    const ignored = [targetFile.entries[issue.key], sourceFile.entries[issue.key]].flatMap(entry => {
+      const value = entry?.metadata?.[IGNORE_ATTRIBUTE];
+      return value === undefined ? [] : ([] as unknown[]).concat(value);
+    });
+    return ignored.includes(rule) || ignored.includes('*');
   }
 
-  private compareICUStructure(ast1: any, ast2: any): boolean {
-    return JSON.stringify(this.extractICUStructure(ast1)) === 
-           JSON.stringify(this.extractICUStructure(ast2));
-  }
-
-  private extractICUStructure(ast: any): any {
-    if (Array.isArray(ast)) {
-      return ast.map(node => this.extractICUStructure(node));
-    }
-    
-    if (ast && typeof ast === 'object') {
-      const structure: any = { type: ast.type };
-      
-      if (ast.argument) structure.argument = ast.argument;
-      if (ast.pluralType) structure.pluralType = ast.pluralType;
-      if (ast.options) {
-        structure.options = Object.keys(ast.options).sort();
-      }
-      
-      return structure;
-    }
-    
-    return null;
+  // * matches within one `.` or `:` separated segment of a key, ** across segments
+  static matchesKeyGlob(key: string, glob: string): boolean {
+    const pattern = glob
+      .split(/(\*\*|\*|\?)/)
+      .map(part => {
+        if (part === '**') return '.*';
+        if (part === '*') return '[^.:]*';
+        if (part === '?') return '[^.:]';
+        return part.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+      })
+      .join('');
+    return new RegExp(`^${pattern}$`).test(key);
   }
 
   private calculateStats(issues: ValidationIssue[]): LocaleReport['stats'] {
@@ -259,7 +140,14 @@ export class Validator {
       duplicates: 0,
       icuErrors: 0,
       placeholderMismatches: 0,
-      formattingWarnings: 0
+      formattingWarnings: 0,
+      localeMismatches: 0,
+      genL10nErrors: 0,
+      untranslated: 0,
+      lengthOverflows: 0,
+      markupMismatches: 0,
+      glossaryViolations: 0,
+      doNotTranslateViolations: 0
     };
 
     for (const issue of issues) {
@@ -282,22 +170,30 @@ export class Validator {
         case 'formatting':
           stats.formattingWarnings++;
           break;
+        case 'localeMismatch':
+          stats.localeMismatches++;
+          break;
+        case 'genL10n':
+          stats.genL10nErrors++;
+          break;
+        case 'untranslated':
+          stats.untranslated++;
+          break;
+        case 'lengthOverflow':
+          stats.lengthOverflows++;
+          break;
+        case 'markupMismatch':
+          stats.markupMismatches++;
+          break;
+        case 'glossary':
+          stats.glossaryViolations++;
+          break;
+        case 'doNotTranslate':
+          stats.doNotTranslateViolations++;
+          break;
       }
     }
 
     return stats;
   }
-
-  private extractPlaceholders(value: string): string[] {
-    const placeholderRegex = /\{([^}]+)\}/g;
-    const placeholders: string[] = [];
-    let match;
-
-    while ((match = placeholderRegex.exec(value)) !== null) {
-      placeholders.push(match[1]);
-    }
-
-    return placeholders;
-  }
-
-}
\ No newline at end of file
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { XLIFFConverter } from './xliff';
+import { LocaleEntry, LocaleFile } from '../types';
+
+function localeFile(locale: string, values: Record<string, string>, descriptions: Record<string, string> = {}): LocaleFile {
+  const entries: Record<string, LocaleEntry> = {};
+  for (const [key, value] of Object.entries(values)) {
+    entries[key] = { key, value, description: descriptions[key] };
+  }
+  return { locale, path: `${locale}.arb`, format: 'arb', entries, raw: {} };
+}
+
+const source = localeFile('en', {
+  greeting: 'Hello {name} & <welcome>',
+  items: '{count, plural, one{# item} other{# items}}',
+  gender: '{sex, select, male{He} female{She} other{They}}'
+}, { items: 'Items in the cart' });
+
+describe('XLIFFConverter', () => {
+  for (const version of ['1.2', '2.0'] as const) {
+    it(`round-trips messages through XLIFF ${version}`, () => {
+      const target = localeFile('de', {
+        greeting: 'Hallo {name} & <willkommen>',
+        items: '{count, plural, one{# Artikel} other{# Artikel}}',
+        gender: '{sex, select, male{Er} female{Sie} other{Sie}}'
+      });
+      const document = XLIFFConverter.parse(XLIFFConverter.serialize(source, target, 'de', version));
+
+      expect(document).toMatchObject({ version, sourceLocale: 'en', targetLocale: 'de' });
+      expect(document.units.map(unit => [unit.id, unit.source, unit.target])).toEqual(
+        Object.keys(source.entries).map(key => [key, source.entries[key].value, target.entries[key].value])
+      );
+      expect(document.units[1].note).toBe('Items in the cart');
+    });
+
+    it(`protects simple arguments in XLIFF ${version}`, () => {
+      const content = XLIFFConverter.serialize(source, undefined, 'de', version);
+      expect(content).not.toMatch(/<source>Hello \{name\}/);
+      expect(XLIFFConverter.parse(content).units[0]).toMatchObject({ source: 'Hello {name} & <welcome>', target: undefined });
+    });
+
+    it(`exports the plural cases the target locale needs in XLIFF ${version}`, () => {
+      const target = localeFile('ru', { items: '{count, plural, one{# товар} other{# товара}}' });
+      const content = XLIFFConverter.serialize(source, target, 'ru', version);
+
+      for (const selector of ['one', 'few', 'many', 'other']) {
+        expect(content).toContain(`"items[${selector}]"`);
+      }
+      expect(content).not.toContain('plural,');
+
+      // A translator fills in the new cases
+      const translated = content
+        .replace(/(items\[few\]"[^]*?<source>[^<]*<\/source>)/, '$1<target># товара</target>')
+        .replace(/(items\[many\]"[^]*?<source>[^<]*<\/source>)/, '$1<target># товаров</target>');
+      const unit = XLIFFConverter.parse(translated).units.find(item => item.id === 'items');
+      expect(unit?.target).toBe('{count, plural, one{# товар} few{# товара} many{# товаров} other{# товара}}');
+    });
+  }
+
+  it('leaves out plural cases the target locale never selects', () => {
+    const content = XLIFFConverter.serialize(source, undefined, 'ja', '1.2');
+    expect(content).toContain('"items[other]"');
+    expect(content).not.toContain('"items[one]"');
+  });
+
+  it('falls back to a single unit when the target does not split into the same cases', () => {
+    const target = localeFile('de', { items: '{n, plural, other{# Artikel}}' });
+    const unit = XLIFFConverter.parse(XLIFFConverter.serialize(source, target, 'de', '1.2')).units[1];
+    expect(unit).toMatchObject({ id: 'items', target: '{n, plural, other{# Artikel}}' });
+  });
+
+  it('reads units nested in groups and equiv-text placeholders', () => {
+    const document = XLIFFConverter.parse(`<?xml version="1.0"?>
+<xliff version="1.2">
+  <file source-language="en-US" target-language="pt-BR">
+    <body>
+      <group id="g">
+        <trans-unit id="welcome">
+          <source>Hi <x id="1" equiv-text="{name}"/></source>
+          <target state="final">Oi <x id="1" equiv-text="{name}"/></target>
+        </trans-unit>
+      </group>
+    </body>
+  </file>
+</xliff>`);
+    expect(document).toMatchObject({ sourceLocale: 'en_US', targetLocale: 'pt_BR' });
+    expect(document.units).toEqual([{ id: 'welcome', source: 'Hi {name}', target: 'Oi {name}', note: undefined, state: 'final' }]);
+  });
+
+  it('rejects documents without an xliff root', () => {
+    expect(() => XLIFFConverter.parse('<root/>')).toThrow('missing <xliff> root');
+  });
+});
@@ -0,0 +1,492 @@
+import { XMLParser } from 'fast-xml-parser';
+import { LocaleFile, XliffDocument, XliffUnit, XliffVersion } from '../types';
+import { ICUPlural } from '../utils/icu-plural';
+import { LocaleTag } from '../utils/locale-tag';
+
+interface InlineToken {
+  type: 'text' | 'code';
+  value: string;
+}
+
+type CaseKind = 'plural' | 'selectordinal' | 'select';
+
+// A message that is a single plural or select argument, one unit per case
+interface CaseGroup {
+  argument: string;
+  kind: CaseKind;
+  units: XliffUnit[];
+}
+
+// An element as fast-xml-parser returns it
+type XmlNode = Record<string, unknown>;
+
+const ICU_COMPLEX_ARGUMENT = /^\{\s*[\w$]+\s*,\s*(?:plural|select|selectordinal)\s*,/;
+
+// Extension attributes on a case group, naming the argument it selects on
+const ICU_NAMESPACE = 'urn:zlocalz:icu';
+
+// The case a unit in a group holds, e.g. "items[few]"
+const CASE_ID = /^(.*)\[([^\]]+)\]$/;
+
+export class XLIFFConverter {
+  static serialize(
+    sourceFile: LocaleFile,
+    targetFile: LocaleFile | undefined,
+    targetLocale: string,
+    version: XliffVersion = '1.2'
+  ): string {
+    const units: XliffUnit[] = Object.values(sourceFile.entries).map(entry => {
+      const target = targetFile?.entries[entry.key];
+      return {
+        id: entry.key,
+        source: entry.value,
+        target: target?.value,
+        note: entry.description,
+        state: target ? 'translated' : undefined
+      };
+    });
+
+    const document: XliffDocument = {
+      version,
+      sourceLocale: sourceFile.locale,
+      targetLocale,
+      original: sourceFile.path,
+      units
+    };
+
+    return version === '2.0' ? this.serialize20(document) : this.serialize12(document);
+  }
+
+  static parse(content: string): XliffDocument {
+    const parser = new XMLParser({
+      ignoreAttributes: false,
+      attributeNamePrefix: '@_',
+      parseTagValue: false,
+      parseAttributeValue: false,
+      trimValues: false,
+      stopNodes: ['*.source', '*.target'],
+      isArray: name => ['file', 'trans-unit', 'unit', 'segment', 'ignorable', 'note', 'data', 'group'].includes(name)
+    });
+
+    const root: XmlNode | undefined = parser.parse(content).xliff;
+    if (!root) {
+      throw new Error('Invalid XLIFF document: missing <xliff> root');
+    }
+
+    const version: XliffVersion = (this.attribute(root, 'version') || '1.2').startsWith('2') ? '2.0' : '1.2';
+    const units: XliffUnit[] = [];
+
+    let sourceLocale = this.attribute(root, 'srcLang') || '';
+    let targetLocale = this.attribute(root, 'trgLang') || '';
+
+    for (const file of this.children(root, 'file')) {
+      const container = version === '1.2' ? this.child(file, 'body') : file;
+      if (version === '1.2') {
+        sourceLocale = sourceLocale || this.attribute(file, 'source-language') || '';
+        targetLocale = targetLocale || this.attribute(file, 'target-language') || '';
+      }
+      const read = (unit: XmlNode) => version === '1.2' ? this.readUnit12(unit) : this.readUnit20(unit);
+
+      for (const item of this.collect(container, version === '1.2' ? 'trans-unit' : 'unit')) {
+        units.push('group' in item ? this.joinCases(item.group, item.units.map(read)) : read(item.unit));
+      }
+    }
+
+    return {
+      version,
+      sourceLocale: LocaleTag.canonicalize(sourceLocale),
+      targetLocale: LocaleTag.canonicalize(targetLocale),
+      units
+    };
+  }
+
+  // Splits a message into translatable text and protected code. Simple
+  // arguments become one code token; plural/select keep their option text
+  // translatable and protect only the ICU syntax around it.
+  static tokenize(message: string): InlineToken[] {
+    const tokens: InlineToken[] = [];
+    const push = (type: InlineToken['type'], value: string) => {
+      if (!value) return;
+      const last = tokens[tokens.length - 1];
+      if (last && last.type === type) {
+        last.value += value;
+      } else {
+        tokens.push({ type, value });
+      }
+    };
+
+    let i = 0;
+    while (i < message.length) {
+      if (message[i] !== '{') {
+        push('text', message[i++]);
+        continue;
+      }
+
+      const end = this.matchingBrace(message, i);
+      if (end === -1) {
+        push('text', message.slice(i));
+        break;
+      }
+
+      const argument = message.slice(i, end + 1);
+      const header = argument.match(ICU_COMPLEX_ARGUMENT);
+      if (!header) {
+        push('code', argument);
+        i = end + 1;
+        continue;
+      }
+
+      let j = i + header[0].length;
+      let code = header[0];
+      while (j < end) {
+        const selector = message.slice(j, end).match(/^\s*[^\s{}]+\s*(?=\{)/);
+        if (!selector) {
+          code += message.slice(j, end);
+          break;
+        }
+        code += selector[0] + '{';
+        j += selector[0].length;
+
+        const close = this.matchingBrace(message, j);
+        push('code', code);
+        for (const token of this.tokenize(message.slice(j + 1, close))) {
+          push(token.type, token.value);
+        }
+        code = '}';
+        j = close + 1;
+
+        const whitespace = message.slice(j, end).match(/^\s*/)![0];
+        code += whitespace;
+        j += whitespace.length;
+      }
+      push('code', code + '}');
+      i = end + 1;
+    }
+
+    return tokens;
+  }
+
+  private static serialize12(document: XliffDocument): string {
+    const lines = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2" xmlns:icu="${ICU_NAMESPACE}">`,
+      `  <file original="${this.escapeAttribute(document.original || '')}" source-language="${LocaleTag.toBCP47(document.sourceLocale)}" target-language="${LocaleTag.toBCP47(document.targetLocale)}" datatype="plaintext">`,
+      '    <body>'
+    ];
+
+    for (const unit of document.units) {
+      const group = this.splitCases(unit, document.targetLocale);
+      if (!group) {
+        lines.push(...this.writeUnit12(unit, '      '));
+        continue;
+      }
+
+      lines.push(`      <group id="${this.escapeAttribute(unit.id)}" resname="${this.escapeAttribute(unit.id)}" ${this.caseAttributes(group)}>`);
+      if (unit.note) {
+        lines.push(`        <note>${this.escapeText(unit.note)}</note>`);
+      }
+      for (const caseUnit of group.units) {
+        lines.push(...this.writeUnit12(caseUnit, '        '));
+      }
+      lines.push('      </group>');
+    }
+
+    lines.push('    </body>', '  </file>', '</xliff>');
+    return lines.join('\n') + '\n';
+  }
+
+  private static writeUnit12(unit: XliffUnit, indent: string): string[] {
+    const codes = new Map<string, number>();
+    const lines = [`${indent}<trans-unit id="${this.escapeAttribute(unit.id)}" resname="${this.escapeAttribute(unit.id)}">`];
+    lines.push(`${indent}  <source>${this.writeInline12(unit.source, codes)}</source>`);
+    if (unit.target !== undefined) {
+      const state = unit.state ? ` state="${unit.state}"` : '';
+      lines.push(`${indent}  <target${state}>${this.writeInline12(unit.target, codes)}</target>`);
+    }
+    if (unit.note) {
+      lines.push(`${indent}  <note>${this.escapeText(unit.note)}</note>`);
+    }
+    lines.push(`${indent}</trans-unit>`);
+    return lines;
+  }
+
+  private static serialize20(document: XliffDocument): string {
+    const lines = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<xliff xmlns="urn:oasis:names:tc:xliff:document:2.0" xmlns:icu="${ICU_NAMESPACE}" version="2.0" srcLang="${LocaleTag.toBCP47(document.sourceLocale)}" trgLang="${LocaleTag.toBCP47(document.targetLocale)}">`,
+      `  <file id="f1" original="${this.escapeAttribute(document.original || '')}">`
+    ];
+
+    let units = 0;
+    document.units.forEach((unit, index) => {
+      const group = this.splitCases(unit, document.targetLocale);
+      if (!group) {
+        lines.push(...this.writeUnit20(unit, `u${++units}`, '    '));
+        return;
+      }
+
+      lines.push(`    <group id="g${index + 1}" name="${this.escapeAttribute(unit.id)}" ${this.caseAttributes(group)}>`);
+      if (unit.note) {
+        lines.push('      <notes>', `        <note>${this.escapeText(unit.note)}</note>`, '      </notes>');
+      }
+      for (const caseUnit of group.units) {
+        lines.push(...this.writeUnit20(caseUnit, `u${++units}`, '      '));
+      }
+      lines.push('    </group>');
+    });
+
+    lines.push('  </file>', '</xliff>');
+    return lines.join('\n') + '\n';
+  }
+
+  private static writeUnit20(unit: XliffUnit, id: string, indent: string): string[] {
+    const codes = new Map<string, number>();
+    const source = this.writeInline20(unit.source, codes);
+    const target = unit.target !== undefined ? this.writeInline20(unit.target, codes) : undefined;
+
+    const lines = [`${indent}<unit id="${id}" name="${this.escapeAttribute(unit.id)}">`];
+    if (unit.note) {
+      lines.push(`${indent}  <notes>`, `${indent}    <note>${this.escapeText(unit.note)}</note>`, `${indent}  </notes>`);
+    }
+    if (codes.size > 0) {
+      lines.push(`${indent}  <originalData>`);
+      for (const [code, codeId] of codes) {
+        lines.push(`${indent}    <data id="d${codeId}">${this.escapeText(code)}</data>`);
+      }
+      lines.push(`${indent}  </originalData>`);
+    }
+
+    const state = unit.state ? ` state="${unit.state}"` : '';
+    lines.push(`${indent}  <segment${state}>`, `${indent}    <source>${source}</source>`);
+    if (target !== undefined) lines.push(`${indent}    <target>${target}</target>`);
+    lines.push(`${indent}  </segment>`, `${indent}</unit>`);
+    return lines;
+  }
+
+  // A message that is one plural or select argument is exported as a group
+  // with one unit per case, so translators can fill in the cases the target
+  // locale needs (Russian few/many for an English one/other) rather than
+  // editing ICU syntax locked inside <ph> codes. Cases the source lacks show
+  // its `other` text. null for any other message, or for a target that does
+  // not split into the same argument's cases.
+  private static splitCases(unit: XliffUnit, targetLocale: string): CaseGroup | null {
+    const read = (message: string) => {
+      const plural = ICUPlural.parse(message);
+      if (plural) return plural;
+      const select = ICUPlural.parseSelect(message);
+      return select ? { ...select, kind: 'select' as const } : null;
+    };
+
+    const source = read(unit.source);
+    if (!source) return null;
+    const target = unit.target !== undefined ? read(unit.target) : null;
+    if (unit.target !== undefined && (target?.argument !== source.argument || target.kind !== source.kind)) {
+      return null;
+    }
+
+    let selectors = Array.from(new Set([...Object.keys(source.forms), ...Object.keys(target?.forms || {})]));
+    const categories = source.kind !== 'select' ? ICUPlural.categories(targetLocale, source.kind) : null;
+    if (categories) {
+      selectors = [...selectors.filter(selector => selector.startsWith('=')), ...categories.keys()];
+    }
+
+    return {
+      argument: source.argument,
+      kind: source.kind,
+      units: selectors.map(selector => {
+        const value = target?.forms[selector];
+        return {
+          id: `${unit.id}[${selector}]`,
+          source: source.forms[selector] ?? source.forms.other ?? '',
+          target: value,
+          note: source.forms[selector] === undefined ? `The source has no '${selector}' case; this is its 'other' text` : undefined,
+          state: value !== undefined ? unit.state : undefined
+        };
+      })
+    };
+  }
+
+  // Reassembles a case group into one unit holding the ICU message. Cases
+  // without a target are left out of the target message.
+  private static joinCases(group: XmlNode, cases: XliffUnit[]): XliffUnit {
+    const argument = this.attribute(group, 'icu:argument') || '';
+    const kind = this.attribute(group, 'icu:type') as CaseKind;
+    const build = (forms: Record<string, string>) => kind === 'select'
+      ? ICUPlural.buildSelect(argument, forms)
+      : ICUPlural.build(argument, forms, kind);
+
+    const sources: Record<string, string> = {};
+    const targets: Record<string, string> = {};
+    let id = this.attribute(group, 'resname') || this.attribute(group, 'name') || this.attribute(group, 'id') || '';
+    for (const unit of cases) {
+      const match = unit.id.match(CASE_ID);
+      if (!match) continue;
+      id = match[1];
+      sources[match[2]] = unit.source;
+      if (unit.target !== undefined) targets[match[2]] = unit.target;
+    }
+
+    const translated = cases.filter(unit => unit.target !== undefined);
+    return {
+      id,
+      source: build(sources),
+      target: translated.length > 0 ? build(targets) : undefined,
+      note: this.noteText(this.children(this.child(group, 'notes') || group, 'note')),
+      state: translated.find(unit => unit.state)?.state
+    };
+  }
+
+  private static caseAttributes(group: CaseGroup): string {
+    return `icu:argument="${this.escapeAttribute(group.argument)}" icu:type="${group.kind}"`;
+  }
+
+  private static writeInline12(message: string, codes: Map<string, number>): string {
+    return this.tokenize(message).map(token => {
+      if (token.type === 'text') return this.escapeText(token.value);
+      return `<ph id="${this.codeId(codes, token.value)}">${this.escapeText(token.value)}</ph>`;
+    }).join('');
+  }
+
+  private static writeInline20(message: string, codes: Map<string, number>): string {
+    return this.tokenize(message).map(token => {
+      if (token.type === 'text') return this.escapeText(token.value);
+      const id = this.codeId(codes, token.value);
+      return `<ph id="${id}" dataRef="d${id}"/>`;
+    }).join('');
+  }
+
+  private static codeId(codes: Map<string, number>, code: string): number {
+    if (!codes.has(code)) codes.set(code, codes.size + 1);
+    return codes.get(code)!;
+  }
+
+  // Inline content comes back as raw XML: placeholders are restored from
+  // <ph>/<x> (via originalData or equiv attributes) and other markup is unwrapped.
+  private static readInline(node: unknown, data: Record<string, string> = {}): string {
+    if (node === undefined) return '';
+    const xml = this.textOf(node);
+
+    return xml
+      .replace(/<(ph|x|sc|ec)\b([^>]*?)\/>/g, (_, _tag, attributes: string) => this.codeFromAttributes(attributes, data))
+      .replace(/<ph\b([^>]*)>([\s\S]*?)<\/ph>/g, (_, attributes: string, inner: string) =>
+        inner ? this.decodeEntities(inner.replace(/<[^>]+>/g, '')) : this.codeFromAttributes(attributes, data))
+      .replace(/<[^>]+>/g, '')
+      .replace(/&[^;\s]+;/g, entity => this.decodeEntities(entity));
+  }
+
+  private static codeFromAttributes(attributes: string, data: Record<string, string>): string {
+    const attribute = (name: string) => attributes.match(new RegExp(`\\b${name}="([^"]*)"`))?.[1];
+    const dataRef = attribute('dataRef');
+    if (dataRef && data[dataRef] !== undefined) return data[dataRef];
+    const equiv = attribute('equiv') ?? attribute('equiv-text') ?? attribute('disp');
+    return equiv !== undefined ? this.decodeEntities(equiv) : '';
+  }
+
+  private static readUnit12(unit: XmlNode): XliffUnit {
+    const target = unit.target;
+    return {
+      id: this.attribute(unit, 'resname') || this.attribute(unit, 'id') || '',
+      source: this.readInline(unit.source),
+      target: target !== undefined ? this.readInline(target) : undefined,
+      note: this.noteText(this.children(unit, 'note')),
+      state: this.isNode(target) ? this.attribute(target, 'state') : undefined
+    };
+  }
+
+  private static readUnit20(unit: XmlNode): XliffUnit {
+    const data: Record<string, string> = {};
+    for (const item of this.children(this.child(unit, 'originalData'), 'data')) {
+      data[this.attribute(item, 'id') || ''] = this.decodeEntities(this.textOf(item));
+    }
+
+    const segments = this.children(unit, 'segment');
+    const parts = [...segments, ...this.children(unit, 'ignorable')];
+    const hasTarget = parts.some(part => part.target !== undefined);
+    return {
+      id: this.attribute(unit, 'name') || this.attribute(unit, 'id') || '',
+      source: parts.map(part => this.readInline(part.source, data)).join(''),
+      target: hasTarget ? parts.map(part => this.readInline(part.target, data)).join('') : undefined,
+      note: this.noteText(this.children(this.child(unit, 'notes'), 'note')),
+      state: segments.length > 0 ? this.attribute(segments[0], 'state') : undefined
+    };
+  }
+
+  // Units in document order, through any nesting of plain groups. A case
+  // group comes back whole, with its units.
+  private static collect(node: XmlNode | undefined, name: string): Array<{ unit: XmlNode } | { group: XmlNode; units: XmlNode[] }> {
+    if (!node) return [];
+    const items: Array<{ unit: XmlNode } | { group: XmlNode; units: XmlNode[] }> = this.children(node, name).map(unit => ({ unit }));
+    for (const group of this.children(node, 'group')) {
+      if (this.attribute(group, 'icu:type')) {
+        items.push({ group, units: this.collect(group, name).flatMap(item => 'unit' in item ? [item.unit] : item.units) });
+      } else {
+        items.push(...this.collect(group, name));
+      }
+    }
+    return items;
+  }
+
+  private static isNode(value: unknown): value is XmlNode {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  private static child(node: XmlNode | undefined, name: string): XmlNode | undefined {
+    const value = node?.[name];
+    return this.isNode(value) ? value : undefined;
+  }
+
+  // Elements holding only text come back as strings; they are wrapped so
+  // every child reads the same way
+  private static children(node: XmlNode | undefined, name: string): XmlNode[] {
+    const value = node?.[name];
+    if (!Array.isArray(value)) return [];
+    return value.map(item => this.isNode(item) ? item : { '#text': item });
+  }
+
+  private static attribute(node: XmlNode, name: string): string | undefined {
+    const value = node[`@_${name}`];
+    return value === undefined ? undefined : String(value);
+  }
+
+  private static noteText(notes: XmlNode[]): string | undefined {
+    if (notes.length === 0) return undefined;
+    return notes.map(note => this.decodeEntities(this.textOf(note))).join('\n');
+  }
+
+  private static textOf(node: unknown): string {
+    if (node === undefined || node === null) return '';
+    if (!this.isNode(node)) return String(node);
+    return String(node['#text'] ?? '');
+  }
+
+  private static matchingBrace(value: string, start: number): number {
+    let depth = 0;
+    for (let i = start; i < value.length; i++) {
+      if (value[i] === '{') depth++;
+      else if (value[i] === '}' && --depth === 0) return i;
+    }
+    return -1;
+  }
+
+  private static escapeText(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+  }
+
+  private static escapeAttribute(value: string): string {
+    return this.escapeText(value).replace(/"/g, '&quot;');
+  }
+
+  private static decodeEntities(text: string): string {
+    return text
+      .replace(/&#x([0-9a-fA-F]+);/g, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+      .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/&amp;/g, '&');
+  }
+}
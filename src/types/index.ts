@@ -1,17 +1,21 @@
-export type LocaleFileFormat = 'arb' | 'json' | 'yaml' | 'yml' | 'csv' | 'tsv';
+export type LocaleFileFormat = 'arb' | 'json' | 'yaml' | 'yml' | 'csv' | 'tsv' | 'xml' | 'strings' | 'stringsdict' | 'xcstrings' | 'po' | 'pot' | 'properties' | 'resx' | 'ftl';
+
+// A built-in format, or one added through a FormatAdapter module listed in config.formats
+export type FormatName = LocaleFileFormat | (string & NonNullable<unknown>);
 
 export interface LocalzConfig {
   flutterLocalesPath: string;
   sourceLocale: string;
   targetLocales: string[];
-  fileFormat?: LocaleFileFormat | 'auto';
+  fileFormat?: FormatName | 'auto';
   filePattern?: string;
   doAutoFix: boolean;
   translateMissing: boolean;
   geminiModel?: string;
   geminiApiKey?: string;
   styleGuidelines?: string;
-  domainGlossary?: Record<string, string>;
+  // Term → translation, either one for every locale or per locale: { "account": { "de": "Konto" } }
+  domainGlossary?: Record<string, GlossaryTranslation>;
   doNotTranslate?: string[];
   preferOrder?: 'mirror-source' | 'alphabetical';
   csvOptions?: {
@@ -19,9 +23,65 @@ export interface LocalzConfig {
     keyColumn?: string;
     valueColumns?: Record<string, string>;
   };
+  // Applies to .json files. Without a mode, files containing nested objects are read as 'nested'.
+  jsonOptions?: {
+    mode?: 'flat' | 'nested' | 'i18next';
+    keySeparator?: string;
+    pluralSeparator?: string;
+    contextSeparator?: string;
+    // Context values (`male` in `friend_male`) to group into a select in i18next mode
+    contexts?: string[];
+  };
+  arbOptions?: {
+    updateLastModified?: boolean;
+  };
+  // Target values identical to the source are reported as untranslated unless
+  // they are allowed here, consist only of doNotTranslate tokens, or have
+  // fewer than minLength letters (default 3)
+  untranslatedOptions?: {
+    allow?: string[];
+    locales?: Record<string, string[]>;
+    minLength?: number;
+  };
+  // How much longer than the source a translation may be, e.g. { maxRatio: 1.5, locales: { de: 1.3 } }.
+  // An entry's x-maxLength metadata is checked regardless.
+  lengthOptions?: {
+    maxRatio?: number;
+    locales?: Record<string, number>;
+  };
+  // How glossary terms are matched when validating; doNotTranslate tokens always match exactly
+  glossaryOptions?: GlossaryMatchOptions;
+  // Modules exporting extra FormatAdapters, resolved from the config file's directory
+  formats?: string[];
+  // gen_l10n's untranslated-messages-file, cross-checked against missing keys after a scan
+  untranslatedMessagesFile?: string;
+  // Severity per rule name, e.g. { "duplicate": "off", "extra": "error" }
+  rules?: Record<string, RuleSeverity>;
+  // Applied in order after `rules`; a later match wins
+  ruleOverrides?: RuleOverride[];
   autoUpdate?: boolean;
 }
 
+export type RuleSeverity = 'off' | 'warning' | 'error';
+
+export type GlossaryTranslation = string | Record<string, string>;
+
+export interface GlossaryMatchOptions {
+  caseSensitive?: boolean;
+  // Trailing letters of each word that may change, e.g. 2 lets "Konto" match "Konten"
+  inflection?: number;
+}
+
+export interface RuleOverride {
+  locales?: string[];
+  // Key globs: * stays within one `.`/`:` separated segment, ** spans segments
+  keys?: string[];
+  rules: Record<string, RuleSeverity>;
+}
+
+// A value as JSON.parse returns it
+export type JsonValue = string | number | boolean | null | JsonValue[] | { [key: string]: JsonValue };
+
 export interface LocaleEntry {
   key: string;
   value: string;
@@ -35,13 +95,21 @@ export interface LocaleEntry {
 // Keep ARBEntry for backward compatibility
 export interface ARBEntry extends LocaleEntry {}
 
+// How a file's text was stored on disk, so it can be written back the same way
+export interface TextEncoding {
+  charset: 'utf-8' | 'utf-16le' | 'utf-16be';
+  bom: boolean;
+}
+
 export interface LocaleFile {
   locale: string;
   path: string;
-  format: LocaleFileFormat;
+  format: FormatName;
   entries: Record<string, LocaleEntry>;
   raw: Record<string, any>;
   lastModified?: Date;
+  // Unset for files that are not on disk yet, which are written as UTF-8 without a BOM
+  encoding?: TextEncoding;
 }
 
 // Keep ARBFile for backward compatibility
@@ -56,10 +124,19 @@ export type IssueType =
   | 'duplicate'
   | 'icuError'
   | 'placeholderMismatch'
-  | 'formatting';
+  | 'formatting'
+  | 'localeMismatch'
+  | 'genL10n'
+  | 'untranslated'
+  | 'lengthOverflow'
+  | 'markupMismatch'
+  | 'glossary'
+  | 'doNotTranslate';
 
 export interface ValidationIssue {
   type: IssueType;
+  // The rule that reported it; built-in rules are named after their issue type
+  rule?: string;
   locale: string;
   key: string;
   message: string;
@@ -67,11 +144,25 @@ export interface ValidationIssue {
   sourceValue?: string;
   targetValue?: string;
   suggestion?: string;
+  // lengthOverflow measurements, in grapheme clusters
+  overflow?: {
+    length: number;
+    sourceLength: number;
+    ratio: number;
+    maxLength?: number;
+    maxRatio?: number;
+  };
+}
+
+export interface ValidationRule {
+  name: string;
+  description?: string;
+  check(targetFile: LocaleFile, sourceFile: LocaleFile, config: Partial<LocalzConfig>): ValidationIssue[];
 }
 
 export interface LocaleReport {
   locale: string;
-  format: LocaleFileFormat;
+  format: FormatName;
   issues: ValidationIssue[];
   stats: {
     totalKeys: number;
@@ -81,6 +172,13 @@ export interface LocaleReport {
     icuErrors: number;
     placeholderMismatches: number;
     formattingWarnings: number;
+    localeMismatches: number;
+    genL10nErrors: number;
+    untranslated: number;
+    lengthOverflows: number;
+    markupMismatches: number;
+    glossaryViolations: number;
+    doNotTranslateViolations: number;
   };
 }
 
@@ -90,7 +188,10 @@ export interface Translation {
   sourceValue: string;
   translatedValue: string;
   placeholdersPreserved: boolean;
+  markupPreserved: boolean;
   glossaryApplied?: string[];
+  // markupMismatch issues for a translation whose tags do not match the source
+  issues?: ValidationIssue[];
 }
 
 export interface Fix {
@@ -108,6 +209,24 @@ export interface Patch {
   format: 'unified' | 'git';
 }
 
+export type XliffVersion = '1.2' | '2.0';
+
+export interface XliffUnit {
+  id: string;
+  source: string;
+  target?: string;
+  note?: string;
+  state?: string;
+}
+
+export interface XliffDocument {
+  version: XliffVersion;
+  sourceLocale: string;
+  targetLocale: string;
+  original?: string;
+  units: XliffUnit[];
+}
+
 export interface LocalzReport {
   summary: {
     sourceLocale: string;
@@ -126,4 +245,62 @@ export interface LocalzReport {
     path: string;
     contents: string;
   }>;
-}
\ No newline at end of file
+}
+
+// `message` is a value the target format cannot express at all; `plurals`
+// the plural cases it drops
+export type ConvertibleField = 'description' | 'placeholders' | 'context' | 'tags' | 'translatable' | 'metadata' | 'message' | 'plurals';
+
+export interface ConversionLoss {
+  locale: string;
+  key: string;
+  field: ConvertibleField;
+  detail?: string;
+}
+
+export type PortableField = Exclude<ConvertibleField, 'metadata' | 'message' | 'plurals'>;
+
+export interface FormatContext {
+  config: LocalzConfig;
+  filePath: string;
+}
+
+export interface ParseContext extends FormatContext {
+  // The locale taken from the path, or the one asked for in a multi-locale file
+  locale: string;
+  requested: boolean;
+}
+
+export interface ParsedLocale {
+  entries: Record<string, LocaleEntry>;
+  raw: Record<string, unknown>;
+  // Set when the file declares a different locale than its path suggests
+  locale?: string;
+}
+
+export interface FormatAdapter {
+  name: string;
+  aliases?: string[];
+  // Extension used when converting into this format, e.g. '.arb'
+  extension: string;
+  // Globs used to discover files when this format is configured
+  patterns: string[];
+  // LocaleEntry fields the serializer stores
+  fields?: PortableField[];
+  // Metadata keys describing layout only, not reported as lost on conversion
+  structuralMetadata?: string[] | 'all';
+  // One file holds every locale (CSV tables, string catalogs)
+  multiLocale?: boolean;
+  // Native plural resources keep CLDR categories only: any of them in each
+  // plural block ('categories'), or the locale's own for a message that is
+  // one plural ('locale'). Unset when messages are stored as ICU text.
+  pluralCases?: 'categories' | 'locale';
+  detect(filePath: string): boolean;
+  // null falls back to reading the locale from the file and directory names
+  localeFromPath?(filePath: string, config: LocalzConfig): string | null;
+  // Locales held by a multi-locale file; null reads it as a single locale
+  locales?(content: string, context: FormatContext): string[] | null | Promise<string[] | null>;
+  parse(content: string, context: ParseContext): ParsedLocale | Promise<ParsedLocale>;
+  // `existing` is the file currently on disk, if any, so shared files can be merged into
+  serialize(localeFile: LocaleFile, existing: string | null, context: FormatContext): string | Promise<string>;
+}
@@ -0,0 +1,90 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { FlutterL10n } from './flutter-l10n';
+import { LocaleReport, ValidationIssue } from '../types';
+
+let project: string;
+
+async function write(relative: string, content: string): Promise<void> {
+  await mkdir(path.dirname(path.join(project, relative)), { recursive: true });
+  await writeFile(path.join(project, relative), content);
+}
+
+function report(locale: string, missing: string[]): LocaleReport {
+  const issues = missing.map(key => ({ type: 'missing', locale, key, message: 'Missing', severity: 'error' }) as ValidationIssue);
+  return { locale, issues } as LocaleReport;
+}
+
+beforeEach(async () => {
+  project = await mkdtemp(path.join(os.tmpdir(), 'flutter-l10n-'));
+});
+
+afterEach(async () => {
+  await rm(project, { recursive: true, force: true });
+});
+
+describe('FlutterL10n', () => {
+  it('is null without an l10n.yaml', async () => {
+    expect(await FlutterL10n.read(project)).toBeNull();
+    expect(await FlutterL10n.configure(project)).toBeNull();
+  });
+
+  it('applies gen_l10n defaults', async () => {
+    await write('l10n.yaml', '');
+    expect(await FlutterL10n.read(project)).toEqual({
+      file: path.join(project, 'l10n.yaml'),
+      arbDir: path.join(project, 'lib', 'l10n'),
+      templateArbFile: 'app_en.arb',
+      outputLocalizationFile: 'app_localizations.dart',
+      untranslatedMessagesFile: undefined
+    });
+  });
+
+  it('rejects an l10n.yaml that is not a mapping or not YAML', async () => {
+    await write('l10n.yaml', '- arb-dir\n');
+    await expect(FlutterL10n.read(project)).rejects.toThrow('is not a YAML mapping');
+    await write('l10n.yaml', 'arb-dir: [lib\n');
+    await expect(FlutterL10n.read(project)).rejects.toThrow();
+  });
+
+  it('finds the locales next to the template in arb-dir', async () => {
+    await write('l10n.yaml', 'arb-dir: res/i18n\ntemplate-arb-file: strings_en_US.arb\nuntranslated-messages-file: build/untranslated.json\n');
+    for (const name of ['strings_en_US.arb', 'strings_de.arb', 'strings_pt-BR.arb', 'other_fr.arb', 'nested/strings_es.arb']) {
+      await write(path.join('res', 'i18n', name), '{}');
+    }
+
+    expect(await FlutterL10n.configure(project)).toMatchObject({
+      flutterLocalesPath: path.join(project, 'res', 'i18n'),
+      sourceLocale: 'en_US',
+      targetLocales: ['de', 'pt_BR'],
+      filePattern: 'strings_*.arb',
+      settings: { untranslatedMessagesFile: path.join(project, 'build', 'untranslated.json') }
+    });
+  });
+
+  it('reads the template locale from @@locale when the name has none', async () => {
+    await write('l10n.yaml', 'template-arb-file: intl_messages.arb\n');
+    await write('lib/l10n/intl_messages.arb', '{ "@@locale": "fr" }');
+    await write('lib/l10n/intl_de.arb', '{}');
+
+    expect(await FlutterL10n.configure(project)).toMatchObject({ sourceLocale: 'fr', filePattern: '*.arb', targetLocales: ['de'] });
+  });
+
+  it('cross-checks the untranslated messages file against missing keys', async () => {
+    expect(await FlutterL10n.readUntranslated(path.join(project, 'untranslated.json'))).toBeNull();
+
+    await write('untranslated.json', JSON.stringify({ 'pt-BR': ['title', 'stale'], de: ['title'], fr: 'not a list' }));
+    const untranslated = await FlutterL10n.readUntranslated(path.join(project, 'untranslated.json'));
+    expect(untranslated).toEqual({ pt_BR: ['title', 'stale'], de: ['title'] });
+
+    const reports = new Map([
+      ['pt_BR', report('pt_BR', ['title', 'subtitle'])],
+      ['de', report('de', ['title'])]
+    ]);
+    expect(FlutterL10n.crossCheck(untranslated!, reports)).toEqual([
+      { locale: 'pt_BR', onlyFlutter: ['stale'], onlyZlocalz: ['subtitle'] }
+    ]);
+  });
+});
@@ -0,0 +1,150 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as YAML from 'yaml';
+import glob from 'fast-glob';
+import { LocaleReport } from '../types';
+import { ARBParser } from '../core/arb-parser';
+import { LocaleTag } from './locale-tag';
+
+// The gen_l10n settings zlocalz uses, with paths resolved against the project directory
+export interface FlutterL10nSettings {
+  file: string;
+  arbDir: string;
+  templateArbFile: string;
+  outputLocalizationFile: string;
+  untranslatedMessagesFile?: string;
+}
+
+// What l10n.yaml implies for zlocalz's own config
+export interface FlutterL10nConfig {
+  settings: FlutterL10nSettings;
+  flutterLocalesPath: string;
+  sourceLocale?: string;
+  targetLocales: string[];
+  filePattern: string;
+}
+
+// Keys gen_l10n and zlocalz disagree on for one locale
+export interface UntranslatedMismatch {
+  locale: string;
+  onlyFlutter: string[];
+  onlyZlocalz: string[];
+}
+
+export class FlutterL10n {
+  static readonly FILE_NAME = 'l10n.yaml';
+
+  // Reads l10n.yaml from a Flutter project, applying gen_l10n's defaults for
+  // anything it leaves out. null when the project has no l10n.yaml.
+  static async read(projectDir: string): Promise<FlutterL10nSettings | null> {
+    const file = path.join(projectDir, this.FILE_NAME);
+    let content: string;
+    try {
+      content = await fs.readFile(file, 'utf-8');
+    } catch {
+      return null;
+    }
+
+    const options = YAML.parse(content) || {};
+    if (typeof options !== 'object' || Array.isArray(options)) {
+      throw new Error(`${file} is not a YAML mapping`);
+    }
+
+    return {
+      file,
+      arbDir: path.resolve(projectDir, String(options['arb-dir'] || path.join('lib', 'l10n'))),
+      templateArbFile: String(options['template-arb-file'] || 'app_en.arb'),
+      outputLocalizationFile: String(options['output-localization-file'] || 'app_localizations.dart'),
+      untranslatedMessagesFile: options['untranslated-messages-file']
+        ? path.resolve(projectDir, String(options['untranslated-messages-file']))
+        : undefined
+    };
+  }
+
+  // Derives the locales path, source locale, ARB file pattern and target
+  // locales from l10n.yaml and the ARB files next to the template
+  static async configure(projectDir: string): Promise<FlutterL10nConfig | null> {
+    const settings = await this.read(projectDir);
+    if (!settings) return null;
+
+    const sourceLocale = await this.templateLocale(settings);
+    const filePattern = this.filePattern(settings.templateArbFile, sourceLocale);
+
+    // gen_l10n only reads the top level of arb-dir
+    const files = await glob(filePattern, { cwd: settings.arbDir, onlyFiles: true });
+    const locales = files
+      .map(file => LocaleTag.fromName(path.basename(file, '.arb')))
+      .filter((locale): locale is string => locale !== null);
+    const targetLocales = Array.from(new Set(locales))
+      .filter(locale => !sourceLocale || !LocaleTag.equals(locale, sourceLocale))
+      .sort();
+
+    return { settings, flutterLocalesPath: settings.arbDir, sourceLocale, targetLocales, filePattern };
+  }
+
+  // gen_l10n's untranslated-messages file: { "fr": ["key", ...], ... }.
+  // null when it has not been generated yet.
+  static async readUntranslated(filePath: string): Promise<Record<string, string[]> | null> {
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, 'utf-8');
+    } catch {
+      return null;
+    }
+
+    const untranslated: Record<string, string[]> = {};
+    for (const [locale, keys] of Object.entries(JSON.parse(content))) {
+      if (Array.isArray(keys)) {
+        untranslated[LocaleTag.canonicalize(locale)] = keys.map(String);
+      }
+    }
+    return untranslated;
+  }
+
+  // Compares gen_l10n's untranslated messages with zlocalz's missing keys.
+  // Differences usually mean the generated file is stale or a key only one
+  // side can see (e.g. one zlocalz reads from a namespace gen_l10n ignores).
+  static crossCheck(untranslated: Record<string, string[]>, reports: Map<string, LocaleReport>): UntranslatedMismatch[] {
+    const mismatches: UntranslatedMismatch[] = [];
+
+    for (const [locale, report] of reports) {
+      const flutterKey = LocaleTag.find(Object.keys(untranslated), locale);
+      const flutterMissing = new Set(flutterKey ? untranslated[flutterKey] : []);
+      const zlocalzMissing = new Set(report.issues.filter(issue => issue.type === 'missing').map(issue => issue.key));
+
+      const onlyFlutter = Array.from(flutterMissing).filter(key => !zlocalzMissing.has(key));
+      const onlyZlocalz = Array.from(zlocalzMissing).filter(key => !flutterMissing.has(key));
+      if (onlyFlutter.length > 0 || onlyZlocalz.length > 0) {
+        mismatches.push({ locale, onlyFlutter, onlyZlocalz });
+      }
+    }
+
+    return mismatches;
+  }
+
+  // The template's locale comes from its name (app_en.arb), else its @@locale
+  private static async templateLocale(settings: FlutterL10nSettings): Promise<string | undefined> {
+    const fromName = LocaleTag.fromName(path.basename(settings.templateArbFile, '.arb'));
+    if (fromName) return fromName;
+
+    try {
+      const template = JSON.parse(await fs.readFile(path.join(settings.arbDir, settings.templateArbFile), 'utf-8'));
+      return ARBParser.declaredLocale(template);
+    } catch {
+      return undefined;
+    }
+  }
+
+  // app_en.arb → app_*.arb; a template named after its locale alone (en.arb) → *.arb
+  private static filePattern(templateArbFile: string, locale: string | undefined): string {
+    const stem = path.basename(templateArbFile, '.arb');
+    if (locale) {
+      for (let i = 0; i < stem.length; i++) {
+        if ((i === 0 || /[_.-]/.test(stem[i - 1])) && LocaleTag.equals(stem.slice(i), locale)) {
+          return `${stem.slice(0, i)}*.arb`;
+        }
+      }
+    }
+    return '*.arb';
+  }
+}
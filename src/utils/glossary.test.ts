@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { Glossary } from './glossary';
+
+describe('Glossary', () => {
+  it('matches whole words and phrases only', () => {
+    expect(Glossary.contains('Open your account', 'Account', 'en')).toBe(true);
+    expect(Glossary.contains('Open your accountant', 'account', 'en')).toBe(false);
+    expect(Glossary.contains('Pay with Google  Pay', 'google pay', 'en')).toBe(true);
+    expect(Glossary.contains('Open your Account', 'account', 'en', { caseSensitive: true })).toBe(false);
+  });
+
+  it('allows inflected endings when asked', () => {
+    expect(Glossary.contains('Zwei Konten', 'Kont', 'de')).toBe(false);
+    expect(Glossary.contains('Zwei Konten', 'Konto', 'de', { inflection: 2 })).toBe(true);
+  });
+
+  it('matches inside unspaced scripts', () => {
+    expect(Glossary.contains('アカウントを開く', 'アカウント', 'ja')).toBe(true);
+  });
+
+  it('finds a term as written in any letter case', () => {
+    expect(Glossary.find('Mit ACME cloud speichern', 'ACME Cloud')).toBe('ACME cloud');
+    expect(Glossary.find('Going home', 'Go')).toBeUndefined();
+  });
+
+  it('removes whole-word uses of a term only', () => {
+    expect(Glossary.remove('Happy App users', 'App')).toBe('Happy   users');
+    expect(Glossary.remove('Pay with Google Pay', 'Google Pay')).toBe('Pay with  ');
+  });
+
+  it('picks the translation for a locale, falling back to its language', () => {
+    const glossary = { account: { de: 'Konto', pt_BR: 'conta' }, app: 'App' };
+    expect(Glossary.forLocale(glossary, 'de_AT')).toEqual({ account: 'Konto', app: 'App' });
+    expect(Glossary.forLocale(glossary, 'fr')).toEqual({ app: 'App' });
+  });
+});
@@ -0,0 +1,74 @@
+import { GlossaryMatchOptions, GlossaryTranslation } from '../types';
+import { LocaleTag } from './locale-tag';
+
+// Scripts written without spaces, where a term can sit inside a longer run of letters
+const UNSPACED_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}\p{Script=Lao}\p{Script=Khmer}\p{Script=Myanmar}]/u;
+
+// Inflected stems keep at least this many letters, so short words stay exact
+const MIN_STEM = 3;
+
+export class Glossary {
+  // The term → translation pairs that apply to a locale. A term may give one
+  // translation for every locale or one per locale ({ "de": "Konto" }), where
+  // a bare language also covers its regions.
+  static forLocale(glossary: Record<string, GlossaryTranslation> | undefined, locale: string): Record<string, string> {
+    const terms: Record<string, string> = {};
+    const language = LocaleTag.parse(locale)?.language;
+
+    for (const [term, translation] of Object.entries(glossary || {})) {
+      if (typeof translation === 'string') {
+        terms[term] = translation;
+        continue;
+      }
+      const match = LocaleTag.find(Object.keys(translation), locale) ??
+        (language !== undefined ? LocaleTag.find(Object.keys(translation), language) : undefined);
+      if (match !== undefined) terms[term] = translation[match];
+    }
+
+    return terms;
+  }
+
+  // Whether `text` uses `term` as a whole word or phrase
+  static contains(text: string, term: string, locale: string, options: GlossaryMatchOptions = {}): boolean {
+    // Lower-cased with the locale's rules (Turkish İ → i) rather than the regex i flag
+    const normalize = (value: string) => options.caseSensitive ? value : this.lowerCase(value, locale);
+    const pattern = this.pattern(normalize(term), options.inflection ?? 0);
+    return pattern !== null && new RegExp(pattern, 'u').test(normalize(text));
+  }
+
+  // The first whole-word use of `term` in `text` in any letter case, as written there
+  static find(text: string, term: string): string | undefined {
+    const pattern = this.pattern(term, 0);
+    return pattern === null ? undefined : new RegExp(pattern, 'iu').exec(text)?.[0];
+  }
+
+  // `text` with every whole-word use of `term`, written exactly so, taken out
+  static remove(text: string, term: string): string {
+    const pattern = this.pattern(term, 0);
+    return pattern === null ? text : text.replace(new RegExp(pattern, 'gu'), ' ');
+  }
+
+  private static pattern(term: string, inflection: number): string | null {
+    const words = term.trim().split(/\s+/).filter(Boolean);
+    if (words.length === 0) return null;
+
+    const pattern = words.map(word => {
+      const stemLength = Math.min(word.length, Math.max(MIN_STEM, word.length - inflection));
+      const escaped = word.slice(0, stemLength).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      const ending = word.length + inflection - stemLength;
+      return ending > 0 ? `${escaped}\\p{L}{0,${ending}}` : escaped;
+    }).join('\\s+');
+
+    const start = UNSPACED_SCRIPT.test(words[0][0]) ? '' : '(?<![\\p{L}\\p{N}])';
+    const end = UNSPACED_SCRIPT.test(words[words.length - 1].slice(-1)) ? '' : '(?![\\p{L}\\p{N}])';
+    return `${start}${pattern}${end}`;
+  }
+
+  private static lowerCase(value: string, locale: string): string {
+    try {
+      return value.toLocaleLowerCase(LocaleTag.toBCP47(locale));
+    } catch {
+      return value.toLowerCase();
+    }
+  }
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { ICUArguments } from './icu-arguments';
+
+describe('ICUArguments', () => {
+  it('lists arguments with their types and offsets, nested cases included', () => {
+    const message = '{name} has {count, plural, one{# file in {folder}} other{# files}} since {date, date, short}';
+    expect(ICUArguments.parse(message)).toEqual([
+      { name: 'name', type: 'plain', offset: 0 },
+      { name: 'count', type: 'plural', offset: message.indexOf('{count') },
+      { name: 'folder', type: 'plain', offset: message.indexOf('{folder') },
+      { name: 'date', type: 'date', offset: message.indexOf('{date') }
+    ]);
+  });
+
+  it('types number, ordinal and select arguments', () => {
+    const types = ICUArguments.parse('{a, number} {b, selectordinal, other{#}} {c, select, other{x}} {d, time}')!.map(arg => arg.type);
+    expect(types).toEqual(['number', 'plural', 'select', 'date']);
+  });
+
+  it('returns null for messages that are not valid ICU', () => {
+    expect(ICUArguments.parse('{count, plural, one{#}')).toBeNull();
+  });
+
+  it('falls back to scanning broken messages without counting case bodies', () => {
+    expect(ICUArguments.extract('Hi {name}, {count, plural, one{x} =2{y} other{{count} files}')).toEqual([
+      { name: 'name', type: 'plain', offset: 3 },
+      { name: 'count', type: 'plural', offset: 11 },
+      { name: 'count', type: 'plain', offset: 46 }
+    ]);
+  });
+
+  it('lists distinct names in order of first appearance', () => {
+    expect(ICUArguments.names('{b} {a} {b}')).toEqual(['b', 'a']);
+    expect(ICUArguments.names('No arguments')).toEqual([]);
+  });
+});
@@ -0,0 +1,82 @@
+import { Token, parse as parseICU } from '@messageformat/parser';
+
+export type ICUArgumentType = 'plain' | 'number' | 'date' | 'plural' | 'select';
+
+export interface ICUArgument {
+  name: string;
+  type: ICUArgumentType;
+  // Index of the argument's opening brace in the message
+  offset: number;
+}
+
+const FUNCTION_TYPES: Record<string, ICUArgumentType> = {
+  number: 'number',
+  spellout: 'number',
+  ordinal: 'number',
+  duration: 'number',
+  date: 'date',
+  time: 'date'
+};
+
+export class ICUArguments {
+  // Every argument in a message, nested plural and select cases included, in
+  // order of appearance. null when the message is not valid ICU.
+  static parse(value: string): ICUArgument[] | null {
+    let tokens: Token[];
+    try {
+      tokens = parseICU(value);
+    } catch {
+      return null;
+    }
+
+    const args: ICUArgument[] = [];
+    const visit = (nodes: Token[]) => {
+      for (const node of nodes) {
+        if (node.type === 'content' || node.type === 'octothorpe') continue;
+        args.push({ name: node.arg, type: this.typeOf(node), offset: node.ctx.offset });
+        if ('cases' in node) {
+          for (const option of node.cases) visit(option.tokens);
+        }
+      }
+    };
+    visit(tokens);
+    return args;
+  }
+
+  // Like parse, but falls back to scanning for `{name}` and `{name, type`
+  // so half-translated or otherwise broken messages still yield their
+  // arguments. Braces directly after a word or `=N` open a case, not an argument.
+  static extract(value: string): ICUArgument[] {
+    const parsed = this.parse(value);
+    if (parsed) return parsed;
+
+    const args: ICUArgument[] = [];
+    const argumentRegex = /(?<![\w=])\{\s*([^\s{},#]+)\s*(?:,\s*(\w+))?/g;
+    let match;
+    while ((match = argumentRegex.exec(value)) !== null) {
+      args.push({ name: match[1], type: this.typeOf({ type: match[2] ? 'function' : 'argument', key: match[2] }), offset: match.index });
+    }
+    return args;
+  }
+
+  // Distinct argument names in order of first appearance
+  static names(value: string): string[] {
+    return Array.from(new Set(this.extract(value).map(arg => arg.name)));
+  }
+
+  private static typeOf(node: { type: string; key?: string }): ICUArgumentType {
+    switch (node.type) {
+      case 'plural':
+      case 'selectordinal':
+        return 'plural';
+      case 'select':
+        return 'select';
+      case 'function':
+        if (node.key === 'plural' || node.key === 'selectordinal') return 'plural';
+        if (node.key === 'select') return 'select';
+        return FUNCTION_TYPES[node.key || ''] || 'plain';
+      default:
+        return 'plain';
+    }
+  }
+}
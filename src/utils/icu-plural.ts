@@ -0,0 +1,151 @@
+import { LocaleTag } from './locale-tag';
+
+export type PluralKind = 'plural' | 'selectordinal';
+
+export interface PluralMessage {
+  argument: string;
+  kind: PluralKind;
+  forms: Record<string, string>;
+}
+
+export const PLURAL_CATEGORIES = ['zero', 'one', 'two', 'few', 'many', 'other'] as const;
+
+export class ICUPlural {
+  private static categoryCache = new Map<string, Map<string, number[]> | null>();
+
+  static build(argument: string, forms: Record<string, string>, kind: PluralKind = 'plural'): string {
+    const options = Object.entries(forms)
+      .map(([selector, body]) => `${selector}{${body}}`)
+      .join(' ');
+    return `{${argument}, ${kind}, ${options}}`;
+  }
+
+  static buildSelect(argument: string, forms: Record<string, string>): string {
+    const options = Object.entries(forms)
+      .map(([selector, body]) => `${selector}{${body}}`)
+      .join(' ');
+    return `{${argument}, select, ${options}}`;
+  }
+
+  // The CLDR categories a locale uses for plural (cardinal) or selectordinal
+  // (ordinal) arguments, each with the whole numbers 0-1000 that select it.
+  // Categories only decimals or larger numbers select (French `many`) get an
+  // empty list. null when Intl has no plural rules for the locale.
+  static categories(locale: string, kind: PluralKind = 'plural'): Map<string, number[]> | null {
+    const cacheKey = `${locale}:${kind}`;
+    if (this.categoryCache.has(cacheKey)) return this.categoryCache.get(cacheKey)!;
+
+    let categories: Map<string, number[]> | null = null;
+    const tag = LocaleTag.toBCP47(locale);
+    if (Intl.PluralRules.supportedLocalesOf(tag).length > 0) {
+      const rules = new Intl.PluralRules(tag, { type: kind === 'selectordinal' ? 'ordinal' : 'cardinal' });
+      const used = rules.resolvedOptions().pluralCategories;
+      categories = new Map(PLURAL_CATEGORIES.filter(category => used.includes(category)).map(category => [category, []]));
+      for (let n = 0; n <= 1000; n++) {
+        categories.get(rules.select(n))?.push(n);
+      }
+    }
+
+    this.categoryCache.set(cacheKey, categories);
+    return categories;
+  }
+
+  // The cases of a plural block that native plural resources cannot hold:
+  // exact `=N` cases, and with a locale, categories its rules never select
+  static unsupportedCases(plural: PluralMessage, locale?: string): string[] {
+    const categories = locale ? this.categories(locale, plural.kind) : null;
+    return Object.keys(plural.forms).filter(selector => categories
+      ? !categories.has(selector)
+      : !(PLURAL_CATEGORIES as readonly string[]).includes(selector));
+  }
+
+  // Only recognises messages that consist of a single top-level plural or
+  // selectordinal block, which is what native plural resources map onto.
+  static parse(value: string): PluralMessage | null {
+    return this.parseBlock(value, /^\{\s*([\w$]+)\s*,\s*(plural|selectordinal)\s*,/) as PluralMessage | null;
+  }
+
+  // Same as parse, for a message that is a single top-level select block
+  static parseSelect(value: string): { argument: string; forms: Record<string, string> } | null {
+    return this.parseBlock(value, /^\{\s*([\w$]+)\s*,\s*(select)\s*,/);
+  }
+
+  private static parseBlock(value: string, headerPattern: RegExp): { argument: string; kind: string; forms: Record<string, string> } | null {
+    const trimmed = value.trim();
+    const header = trimmed.match(headerPattern);
+    if (!header) return null;
+
+    const forms: Record<string, string> = {};
+    let i = header[0].length;
+
+    while (i < trimmed.length) {
+      while (i < trimmed.length && /\s/.test(trimmed[i])) i++;
+      if (trimmed[i] === '}') {
+        return i === trimmed.length - 1
+          ? { argument: header[1], kind: header[2], forms }
+          : null;
+      }
+
+      const selectorMatch = trimmed.slice(i).match(/^[^\s{}]+/);
+      if (!selectorMatch) return null;
+      const selector = selectorMatch[0];
+      i += selector.length;
+
+      while (i < trimmed.length && /\s/.test(trimmed[i])) i++;
+      if (selector.startsWith('offset:')) continue;
+      if (trimmed[i] !== '{') return null;
+
+      const start = ++i;
+      let depth = 1;
+      while (i < trimmed.length && depth > 0) {
+        if (trimmed[i] === '{') depth++;
+        else if (trimmed[i] === '}') depth--;
+        i++;
+      }
+      if (depth !== 0) return null;
+
+      forms[selector] = trimmed.slice(start, i - 1);
+    }
+
+    return null;
+  }
+
+  // Splits a message into literal text and top-level plural blocks, e.g.
+  // "You have {n, plural, one{# file} other{# files}}" → ["You have ", {argument: 'n', ...}]
+  static split(value: string): Array<string | PluralMessage> {
+    const segments: Array<string | PluralMessage> = [];
+    let text = '';
+    let i = 0;
+
+    while (i < value.length) {
+      if (value[i] === '{') {
+        const end = this.matchingBrace(value, i);
+        if (end !== -1) {
+          const plural = this.parse(value.slice(i, end + 1));
+          if (plural) {
+            if (text) segments.push(text);
+            segments.push(plural);
+            text = '';
+            i = end + 1;
+            continue;
+          }
+        }
+      }
+
+      text += value[i];
+      i++;
+    }
+
+    if (text) segments.push(text);
+    return segments;
+  }
+
+  private static matchingBrace(value: string, start: number): number {
+    let depth = 0;
+    for (let i = start; i < value.length; i++) {
+      if (value[i] === '{') depth++;
+      else if (value[i] === '}' && --depth === 0) return i;
+    }
+    return -1;
+  }
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { JsonPatcher } from './json-patcher';
+
+describe('JsonPatcher', () => {
+  it('returns the original text when nothing changed', () => {
+    const original = '{\n    "b":  "B",\n    "a": { "x": 1 }\n}';
+    expect(JsonPatcher.patch(original, { b: 'B', a: { x: 1 } })).toBe(original);
+  });
+
+  it('changes values in place and keeps the formatting of everything else', () => {
+    const original = '{\n\t"title":"Title",\n\t"nested": {"keep": "Keep", "edit": "Old"}\n}\n';
+    expect(JsonPatcher.patch(original, { title: 'Title', nested: { keep: 'Keep', edit: 'New' } }))
+      .toBe('{\n\t"title":"Title",\n\t"nested": {"keep": "Keep", "edit": "New"}\n}\n');
+  });
+
+  it('adds and removes members with the original indentation', () => {
+    const original = '{\n  "a": "A",\n  "b": "B"\n}\n';
+    expect(JsonPatcher.patch(original, { a: 'A', c: { d: 'D' } })).toBe('{\n  "a": "A",\n  "c": {\n    "d": "D"\n  }\n}\n');
+  });
+
+  it('reorders members whose values did not change', () => {
+    const original = '{\n  "b": "B",\n  "a": "A"\n}\n';
+    expect(JsonPatcher.patch(original, { a: 'A', b: 'B' })).toBe('{\n  "a": "A",\n  "b": "B"\n}\n');
+  });
+
+  it('throws on invalid JSON', () => {
+    expect(() => JsonPatcher.patch('{ "a": }', { a: 'A' })).toThrow(SyntaxError);
+  });
+});
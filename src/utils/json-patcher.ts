@@ -0,0 +1,152 @@
+import * as lodash from 'lodash';
+
+interface JsonNode {
+  type: 'object' | 'array' | 'literal';
+  start: number;
+  end: number;
+  members: JsonMember[];
+}
+
+interface JsonMember {
+  key: string;
+  start: number;
+  keyEnd: number;
+  value: JsonNode;
+}
+
+export class JsonPatcher {
+  // Rewrites `original` so it holds `value`, reusing the original text for every
+  // member whose value did not change. Indentation, key spacing and the trailing
+  // newline of the original are kept; members are emitted in `value`'s key order.
+  static patch(original: string, value: unknown): string {
+    const root = this.scan(original);
+    const unit = original.match(/\n([ \t]+)"/)?.[1] || '  ';
+    return original.slice(0, root.start)
+      + this.render(original, root, JSON.parse(original), value, unit, 0)
+      + original.slice(root.end);
+  }
+
+  private static render(text: string, node: JsonNode, oldValue: unknown, newValue: unknown, unit: string, depth: number): string {
+    // Stringified rather than lodash.isEqual, which ignores key order
+    if (JSON.stringify(oldValue) === JSON.stringify(newValue)) {
+      return text.slice(node.start, node.end);
+    }
+
+    if (node.type !== 'object' || !lodash.isPlainObject(newValue) || node.members.length === 0) {
+      return this.stringify(newValue, unit, depth);
+    }
+
+    const oldObject = oldValue as Record<string, unknown>;
+    const newObject = newValue as Record<string, unknown>;
+    const members = node.members;
+    const newKeys = Object.keys(newObject);
+
+    // Same keys in the same order: patch member values in place
+    if (newKeys.length === members.length && newKeys.every((key, index) => members[index].key === key)) {
+      let output = '';
+      let cursor = node.start;
+      for (const member of members) {
+        output += text.slice(cursor, member.value.start);
+        output += this.render(text, member.value, oldObject[member.key], newObject[member.key], unit, depth + 1);
+        cursor = member.value.end;
+      }
+      return output + text.slice(cursor, node.end);
+    }
+
+    // Keys were added, removed or reordered: rebuild the member list, reusing the
+    // original whitespace between members and the original text of kept members
+    const first = members[0];
+    const last = members[members.length - 1];
+    const leading = text.slice(node.start + 1, first.start);
+    const trailing = text.slice(last.value.end, node.end - 1);
+    const separator = members.length > 1 ? text.slice(first.value.end, members[1].start) : `,${leading}`;
+    const colon = text.slice(first.keyEnd, first.value.start);
+    const byKey = new Map(members.map(member => [member.key, member]));
+
+    const parts = newKeys.map(key => {
+      const member = byKey.get(key);
+      if (!member) {
+        return JSON.stringify(key) + colon + this.stringify(newObject[key], unit, depth + 1);
+      }
+      return text.slice(member.start, member.value.start)
+        + this.render(text, member.value, oldObject[key], newObject[key], unit, depth + 1);
+    });
+
+    return `{${leading}${parts.join(separator)}${trailing}}`;
+  }
+
+  private static stringify(value: unknown, unit: string, depth: number): string {
+    return JSON.stringify(value, null, unit).replace(/\n/g, `\n${unit.repeat(depth)}`);
+  }
+
+  // Records where every value and member starts and ends; throws on invalid JSON
+  private static scan(text: string): JsonNode {
+    let position = 0;
+
+    const fail = (): never => {
+      throw new SyntaxError(`Unexpected token in JSON at position ${position}`);
+    };
+    const skipWhitespace = () => {
+      while (position < text.length && /\s/.test(text[position])) position++;
+    };
+    const readString = (): string => {
+      const start = position++;
+      while (position < text.length && text[position] !== '"') {
+        position += text[position] === '\\' ? 2 : 1;
+      }
+      if (position >= text.length) fail();
+      position++;
+      return JSON.parse(text.slice(start, position));
+    };
+
+    const readValue = (): JsonNode => {
+      const start = position;
+      const char = text[position];
+
+      if (char === '{' || char === '[') {
+        const close = char === '{' ? '}' : ']';
+        const members: JsonMember[] = [];
+        position++;
+        skipWhitespace();
+        while (text[position] !== close) {
+          if (char === '{') {
+            if (text[position] !== '"') fail();
+            const memberStart = position;
+            const key = readString();
+            const keyEnd = position;
+            skipWhitespace();
+            if (text[position++] !== ':') fail();
+            skipWhitespace();
+            members.push({ key, start: memberStart, keyEnd, value: readValue() });
+          } else {
+            readValue();
+          }
+          skipWhitespace();
+          if (text[position] === ',') {
+            position++;
+            skipWhitespace();
+          } else if (text[position] !== close) {
+            fail();
+          }
+        }
+        position++;
+        return { type: char === '{' ? 'object' : 'array', start, end: position, members };
+      }
+
+      if (char === '"') {
+        readString();
+      } else {
+        const literal = text.slice(position).match(/^(?:-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?|true|false|null)/);
+        if (!literal) fail();
+        position += literal![0].length;
+      }
+      return { type: 'literal', start, end: position, members: [] };
+    };
+
+    skipWhitespace();
+    const root = readValue();
+    skipWhitespace();
+    if (position !== text.length) fail();
+    return root;
+  }
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { LocaleTag } from './locale-tag';
+
+describe('LocaleTag', () => {
+  it('parses and canonicalizes script, region and variant subtags', () => {
+    expect(LocaleTag.parse('zh-hant-tw')).toEqual({ language: 'zh', script: 'Hant', region: 'TW', variants: [] });
+    expect(LocaleTag.canonicalize('sr-latn')).toBe('sr_Latn');
+    expect(LocaleTag.canonicalize('es-419')).toBe('es_419');
+    expect(LocaleTag.canonicalize('de_DE_1996')).toBe('de_DE_1996');
+    expect(LocaleTag.toBCP47('pt_BR')).toBe('pt-BR');
+  });
+
+  it('keeps text that is not a locale tag', () => {
+    expect(LocaleTag.parse('english')).toBeNull();
+    expect(LocaleTag.canonicalize('not-a-tag-at-all')).toBe('not_a_tag_at_all');
+  });
+
+  it('compares and finds locales across spellings', () => {
+    expect(LocaleTag.equals('pt-br', 'pt_BR')).toBe(true);
+    expect(LocaleTag.find(['en', 'pt-BR'], 'pt_BR')).toBe('pt-BR');
+    expect(LocaleTag.find(['en'], 'fr')).toBeUndefined();
+  });
+
+  it('knows only languages and regions CLDR names', () => {
+    expect(LocaleTag.isKnown('fil')).toBe(true);
+    expect(LocaleTag.isKnown('es_419')).toBe(true);
+    expect(LocaleTag.isKnown('app')).toBe(false);
+    expect(LocaleTag.isKnown('arb_EN')).toBe(false);
+  });
+
+  it('takes the longest known locale from the end of a file name', () => {
+    expect(LocaleTag.fromName('app_zh_Hant_TW')).toBe('zh_Hant_TW');
+    expect(LocaleTag.fromName('messages.es-419')).toBe('es_419');
+    expect(LocaleTag.fromName('app_pt_br')).toBe('pt_BR');
+    expect(LocaleTag.fromName('fil')).toBe('fil');
+    expect(LocaleTag.fromName('arb_en')).toBe('en');
+    expect(LocaleTag.fromName('intl_messages')).toBeNull();
+  });
+});
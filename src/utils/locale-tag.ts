@@ -0,0 +1,103 @@
+export interface LocaleTagParts {
+  language: string;
+  script?: string;
+  region?: string;
+  variants: string[];
+}
+
+const LANGUAGE = /^[a-z]{2,3}$/i;
+const SCRIPT = /^[a-z]{4}$/i;
+const REGION = /^(?:[a-z]{2}|\d{3})$/i;
+const VARIANT = /^(?:[a-z\d]{5,8}|\d[a-z\d]{3})$/i;
+
+// Locales are stored underscore-separated (en_US, zh_Hant_TW, es_419) throughout
+// zlocalz; files, configs and catalogs may use either `_` or `-`.
+export class LocaleTag {
+  private static languageNames?: Intl.DisplayNames;
+  private static regionNames?: Intl.DisplayNames;
+
+  // language[-script][-region][-variant...], case-insensitive, `_` or `-` separated
+  static parse(tag: string): LocaleTagParts | null {
+    const subtags = tag.trim().split(/[-_]/);
+    const language = subtags.shift();
+    if (!language || !LANGUAGE.test(language)) return null;
+
+    const parts: LocaleTagParts = { language: language.toLowerCase(), variants: [] };
+    if (subtags.length > 0 && SCRIPT.test(subtags[0])) {
+      const script = subtags.shift()!;
+      parts.script = script[0].toUpperCase() + script.slice(1).toLowerCase();
+    }
+    if (subtags.length > 0 && REGION.test(subtags[0])) {
+      parts.region = subtags.shift()!.toUpperCase();
+    }
+    while (subtags.length > 0 && VARIANT.test(subtags[0])) {
+      parts.variants.push(subtags.shift()!.toLowerCase());
+    }
+
+    return subtags.length === 0 ? parts : null;
+  }
+
+  static isValid(tag: string): boolean {
+    return this.parse(tag) !== null;
+  }
+
+  // zh-hant-tw → zh_Hant_TW. Anything that is not a locale tag keeps its
+  // text, with `-` turned into `_` as before.
+  static canonicalize(tag: string): string {
+    const parts = this.parse(tag);
+    return parts ? this.format(parts, '_') : tag.replace(/-/g, '_');
+  }
+
+  // The hyphenated form expected by Intl, Xcode catalogs and XLIFF
+  static toBCP47(tag: string): string {
+    const parts = this.parse(tag);
+    return parts ? this.format(parts, '-') : tag.replace(/_/g, '-');
+  }
+
+  static equals(a: string, b: string): boolean {
+    return this.canonicalize(a) === this.canonicalize(b);
+  }
+
+  // The entry of `locales` that names the same locale as `tag`, in its original spelling
+  static find(locales: Iterable<string>, tag: string): string | undefined {
+    for (const locale of locales) {
+      if (this.equals(locale, tag)) return locale;
+    }
+    return undefined;
+  }
+
+  // A tag whose language and region subtags CLDR has names for. Used when
+  // guessing locales from file and folder names, where `app` or `lib` would
+  // otherwise parse, and `arb_en` would read as Arabic in a region `EN`.
+  static isKnown(tag: string): boolean {
+    const parts = this.parse(tag);
+    if (!parts) return false;
+
+    this.languageNames ??= new Intl.DisplayNames(['en'], { type: 'language', fallback: 'none' });
+    this.regionNames ??= new Intl.DisplayNames(['en'], { type: 'region', fallback: 'none' });
+    try {
+      return this.languageNames.of(parts.language) !== undefined &&
+        (parts.region === undefined || this.regionNames.of(parts.region) !== undefined);
+    } catch {
+      return false;
+    }
+  }
+
+  // The longest trailing run of `_`/`-`/`.` separated parts that is a known
+  // locale: app_zh_Hant_TW → zh_Hant_TW, messages.es-419 → es_419, fil → fil,
+  // arb_en → en
+  static fromName(name: string): string | null {
+    const parts = name.split(/[-_.]/);
+    for (let start = 0; start < parts.length; start++) {
+      const candidate = parts.slice(start).join('_');
+      if (this.isKnown(candidate)) return this.canonicalize(candidate);
+    }
+    return null;
+  }
+
+  private static format(parts: LocaleTagParts, separator: string): string {
+    return [parts.language, parts.script, parts.region, ...parts.variants]
+      .filter(Boolean)
+      .join(separator);
+  }
+}
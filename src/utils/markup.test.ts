@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { Markup } from './markup';
+
+describe('Markup.compare', () => {
+  it('accepts reordered elements with the same nesting', () => {
+    expect(Markup.compare('<b>Save</b> or <a href="/x">cancel</a>', '<a href="/y">Abbrechen</a> oder <b>speichern</b>')).toBeNull();
+    expect(Markup.compare('<b>Save</b> <i>now</i>', '<b>Speichern</b>')).toBe(
+      'Markup differs from source: expected [b, i], found [b]'
+    );
+  });
+
+  it('reports broken target markup', () => {
+    expect(Markup.compare('<b>Save</b>', '<b>Speichern')).toBe('<b> is never closed');
+    expect(Markup.compare('<b>Save</b>', '<b>Speichern</i>')).toBe('</i> closes <b>');
+  });
+
+  it('compares plural cases one by one rather than counting across them', () => {
+    const source = '{n, plural, one{<b>#</b> file} other{<b>#</b> files}}';
+    expect(Markup.compare(source, '{n, plural, one{<b>#</b> файл} few{<b>#</b> файла} many{<b>#</b> файлов} other{<b>#</b> файла}}')).toBeNull();
+    expect(Markup.compare(source, '{n, plural, other{<b>#</b> ファイル}}')).toBeNull();
+    expect(Markup.compare(source, '{n, plural, one{<b>#</b> файл} few{# файла} other{<b>#</b> файла}}')).toBe(
+      'Markup differs from source: expected [b], found []'
+    );
+  });
+
+  it('accepts any structure one of the source cases has', () => {
+    const source = '{n, plural, one{<b>One</b> file} other{# files}}';
+    expect(Markup.compare(source, '{n, plural, other{# ファイル}}')).toBeNull();
+    expect(Markup.compare(source, '{n, plural, other{<i>#</i> ファイル}}')).toBe(
+      'Markup differs from source: expected [b] or [], found [i]'
+    );
+  });
+
+  it('skips sources whose own markup is broken', () => {
+    expect(Markup.compare('Press <Enter>', 'Drücke <Enter>')).toBeNull();
+    expect(Markup.compare('</b>Save', 'Speichern')).toBeNull();
+  });
+});
@@ -0,0 +1,147 @@
+import { Token, parse as parseICU } from '@messageformat/parser';
+
+export interface MarkupTag {
+  name: string;
+  kind: 'open' | 'close' | 'self';
+  // The tag as written, attributes included
+  text: string;
+  offset: number;
+}
+
+// HTML elements that never take a closing tag
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'param', 'source', 'track', 'wbr'
+]);
+
+// <b>, <a href="...">, </b>, <br/>, and the numbered tags of rich-text
+// components such as react-i18next's <Trans> (<0>, </0>, <1/>).
+// A `<` followed by anything else ("a < b") is text.
+const TAG_REGEX = /<(\/?)([A-Za-z][\w:.-]*(?:\s+[^<>]*?)?|\d+)\s*(\/?)>/g;
+
+export class Markup {
+  static tags(value: string): MarkupTag[] {
+    const tags: MarkupTag[] = [];
+    let match;
+    TAG_REGEX.lastIndex = 0;
+    while ((match = TAG_REGEX.exec(value)) !== null) {
+      const name = match[2].split(/\s/)[0];
+      const kind = match[1] ? 'close' : match[3] || VOID_ELEMENTS.has(name.toLowerCase()) ? 'self' : 'open';
+      tags.push({ name, kind, text: match[0], offset: match.index });
+    }
+    return tags;
+  }
+
+  // Why a message's tags are not well-formed, or null when they are
+  static error(value: string): string | null {
+    const open: MarkupTag[] = [];
+    for (const tag of this.tags(value)) {
+      if (tag.kind === 'open') {
+        open.push(tag);
+      } else if (tag.kind === 'close') {
+        const innermost = open.pop();
+        if (!innermost) return `</${tag.name}> has no opening tag`;
+        if (innermost.name !== tag.name) return `</${tag.name}> closes <${innermost.name}>`;
+      }
+    }
+    return open.length > 0 ? `<${open[open.length - 1].name}> is never closed` : null;
+  }
+
+  // Every element as the path of tags enclosing it, e.g. "b>a" for an <a>
+  // inside a <b>. Sorted, since translations may reorder elements but should
+  // keep the same set and nesting.
+  static structure(value: string): string[] {
+    const open: string[] = [];
+    const paths: string[] = [];
+    for (const tag of this.tags(value)) {
+      if (tag.kind === 'close') {
+        open.pop();
+        continue;
+      }
+      paths.push([...open, tag.name].join('>'));
+      if (tag.kind === 'open') open.push(tag.name);
+    }
+    return paths.sort();
+  }
+
+  // How the target's markup differs from the source's, or null when it
+  // matches. Plural and select cases are compared one by one, since locales
+  // need different cases: every case the target writes must have the
+  // structure of some source case. A source with broken markup is skipped,
+  // as every translation would repeat its error.
+  static compare(source: string, target: string): string | null {
+    const sourceCases = this.cases(source);
+    if (sourceCases.some(text => this.error(text))) return null;
+
+    const targetCases = this.cases(target);
+    for (const text of targetCases) {
+      const error = this.error(text);
+      if (error) return error;
+    }
+
+    const expected = Array.from(new Set(sourceCases.map(text => this.structure(text).join(', '))));
+    for (const text of targetCases) {
+      const found = this.structure(text).join(', ');
+      if (!expected.includes(found)) {
+        return `Markup differs from source: expected ${expected.map(paths => `[${paths}]`).join(' or ')}, found [${found}]`;
+      }
+    }
+    return null;
+  }
+
+  // The text of each way an ICU message can come out, one per combination of
+  // plural and select cases, with arguments left out. A message that is not
+  // valid ICU is its own single case.
+  private static cases(value: string): string[] {
+    let tokens: Token[];
+    try {
+      tokens = parseICU(value);
+    } catch {
+      return [value];
+    }
+
+    const render = (nodes: Token[]): string[] => nodes.reduce<string[]>((texts, node) => {
+      let options: string[];
+      if (node.type === 'content') options = [node.value];
+      else if (node.type === 'octothorpe') options = ['#'];
+      else if ('cases' in node) options = node.cases.flatMap(option => render(option.tokens));
+      else options = [''];
+      return texts.flatMap(text => options.map(option => text + option));
+    }, ['']);
+    return Array.from(new Set(render(tokens)));
+  }
+
+  // Swaps each tag for a numbered stand-in (<0>, </0>, <1/>) so a translator
+  // can move tags around but has no attributes to translate or drop
+  static protect(value: string): { text: string; tags: string[] } {
+    const tags: string[] = [];
+    const open: number[] = [];
+    let text = '';
+    let last = 0;
+
+    for (const tag of this.tags(value)) {
+      let token: string;
+      if (tag.kind === 'close') {
+        const index = open.pop();
+        // Stray closing tags stay as they are
+        token = index === undefined ? tag.text : `</${index}>`;
+      } else {
+        tags.push(tag.text);
+        token = tag.kind === 'self' ? `<${tags.length - 1}/>` : `<${tags.length - 1}>`;
+        if (tag.kind === 'open') open.push(tags.length - 1);
+      }
+      text += value.slice(last, tag.offset) + token;
+      last = tag.offset + tag.text.length;
+    }
+
+    return { text: text + value.slice(last), tags };
+  }
+
+  // Puts back the tags protect() took out. Unknown stand-ins are left as they are.
+  static restore(text: string, tags: string[]): string {
+    return text.replace(/<(\/?)(\d+)\s*(\/?)>/g, (token, closing: string, index: string) => {
+      const original = tags[Number(index)];
+      if (original === undefined) return token;
+      return closing ? `</${Markup.tags(original)[0].name}>` : original;
+    });
+  }
+}
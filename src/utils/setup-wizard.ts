@@ -3,6 +3,9 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import chalk from 'chalk';
 import { LocalzConfig, LocaleFileFormat } from '../types';
+import { AndroidStringsFormat } from '../core/formats/android-strings';
+import { LocaleTag } from './locale-tag';
+import { FlutterL10n, FlutterL10nConfig } from './flutter-l10n';
 // import { UniversalParser } from '../core/universal-parser'; // TODO: use for file discovery
 
 export class SetupWizard {
@@ -31,6 +34,7 @@ export class SetupWizard {
     // Step 5: Merge all configurations
     const finalConfig = {
       ...config,
+      ...this.flutterL10nConfig(detectedFiles.flutterL10n, config),
       ...advancedConfig,
       ...translationConfig
     } as LocalzConfig;
@@ -57,6 +61,7 @@ export class SetupWizard {
     detectedLocales?: string[];
     suggestedSourceLocale?: string;
     suggestedTargetLocales?: string[];
+    flutterL10n?: FlutterL10nConfig;
   }> {
     const commonPaths = [
       'lib/l10n',
@@ -64,7 +69,8 @@ export class SetupWizard {
       'assets/locales',
       'locales',
       'i18n',
-      'translations'
+      'translations',
+      'android/app/src/main/res'
     ];
 
     const detectedFiles: string[] = [];
@@ -73,6 +79,17 @@ export class SetupWizard {
     let suggestedPath: string | undefined;
     let suggestedFormat: LocaleFileFormat | undefined;
 
+    // l10n.yaml names the ARB directory and template outright
+    const flutterL10n = await FlutterL10n.configure(this.cwd) || undefined;
+    if (flutterL10n) {
+      suggestedPath = path.relative(this.cwd, flutterL10n.flutterLocalesPath) || '.';
+      suggestedFormat = 'arb';
+      formats.add('arb');
+      for (const locale of [flutterL10n.sourceLocale, ...flutterL10n.targetLocales]) {
+        if (locale) detectedLocales.add(locale);
+      }
+    }
+
     for (const searchPath of commonPaths) {
       const fullPath = path.join(this.cwd, searchPath);
       try {
@@ -83,6 +100,7 @@ export class SetupWizard {
         const jsonFiles = await this.findFiles(fullPath, '**/*.json');
         const yamlFiles = await this.findFiles(fullPath, '**/*.{yml,yaml}');
         const csvFiles = await this.findFiles(fullPath, '**/*.{csv,tsv}');
+        const androidFiles = await this.findFiles(fullPath, '**/values*/strings.xml');
 
         if (arbFiles.length > 0) {
           formats.add('arb');
@@ -133,6 +151,19 @@ export class SetupWizard {
             suggestedFormat = 'csv';
           }
         }
+        if (androidFiles.length > 0) {
+          formats.add('xml');
+          detectedFiles.push(...androidFiles);
+          // Extract locales from resource folders (e.g., values-es, values-pt-rBR)
+          for (const file of androidFiles) {
+            const locale = this.extractLocaleFromFilename(file, 'xml');
+            if (locale) detectedLocales.add(locale);
+          }
+          if (!suggestedPath) {
+            suggestedPath = searchPath;
+            suggestedFormat = 'xml';
+          }
+        }
       } catch (error) {
         // Path doesn't exist, continue
       }
@@ -140,7 +171,7 @@ export class SetupWizard {
 
     // Generate locale suggestions
     const localesArray = Array.from(detectedLocales).sort();
-    const suggestedSourceLocale = this.determineMostLikelySource(localesArray);
+    const suggestedSourceLocale = flutterL10n?.sourceLocale || this.determineMostLikelySource(localesArray);
     const suggestedTargetLocales = localesArray.filter(l => l !== suggestedSourceLocale);
 
     return {
@@ -150,7 +181,22 @@ export class SetupWizard {
       suggestedFormat: suggestedFormat || 'arb',
       detectedLocales: localesArray,
       suggestedSourceLocale: suggestedSourceLocale || 'en',
-      suggestedTargetLocales: suggestedTargetLocales
+      suggestedTargetLocales: suggestedTargetLocales,
+      flutterL10n
+    };
+  }
+
+  // Keeps l10n.yaml's ARB file pattern and untranslated-messages file when
+  // its arb-dir was accepted as the locales path
+  private flutterL10nConfig(flutterL10n: FlutterL10nConfig | undefined, config: Partial<LocalzConfig>): Partial<LocalzConfig> {
+    if (!flutterL10n || path.resolve(this.cwd, config.flutterLocalesPath || '') !== flutterL10n.flutterLocalesPath) {
+      return {};
+    }
+
+    const { untranslatedMessagesFile } = flutterL10n.settings;
+    return {
+      filePattern: flutterL10n.filePattern,
+      ...(untranslatedMessagesFile && { untranslatedMessagesFile: path.relative(this.cwd, untranslatedMessagesFile) })
     };
   }
 
@@ -168,23 +214,23 @@ export class SetupWizard {
   }
 
   private extractLocaleFromFilename(filePath: string, format: LocaleFileFormat): string | null {
-    const filename = path.basename(filePath);
+    const basename = path.basename(filePath, path.extname(filePath));
     
     switch (format) {
       case 'arb':
-        // Extract from patterns like: app_en.arb, intl_es.arb, translations_en_US.arb
-        const arbMatch = filename.match(/[_-]([a-z]{2,3}([_-][A-Z]{2})?)\.arb$/i);
-        return arbMatch ? arbMatch[1].toLowerCase().replace('-', '_') : null;
+        // Extract from patterns like: app_en.arb, intl_es.arb, translations_zh_Hant_TW.arb
+        return LocaleTag.fromName(basename);
       
       case 'json':
-        // Extract from patterns like: en.json, es.json, en_US.json
-        const jsonMatch = filename.match(/^([a-z]{2,3}([_-][A-Z]{2})?)\.json$/i);
-        return jsonMatch ? jsonMatch[1].toLowerCase().replace('-', '_') : null;
-      
       case 'yaml':
-        // Extract from patterns like: en.yml, es.yaml, en_US.yaml
-        const yamlMatch = filename.match(/^([a-z]{2,3}([_-][A-Z]{2})?)\.(yml|yaml)$/i);
-        return yamlMatch ? yamlMatch[1].toLowerCase().replace('-', '_') : null;
+        // Extract from patterns like: en.json, es-419.yml, sr_Latn.yaml
+        return LocaleTag.isKnown(basename) ? LocaleTag.canonicalize(basename) : null;
+      
+      case 'xml':
+        // Extract from resource folders like: values-es/strings.xml, values-pt-rBR/strings.xml, values-b+sr+Latn
+        return path.basename(path.dirname(filePath)) === 'values'
+          ? null
+          : AndroidStringsFormat.extractLocale(filePath, '');
       
       default:
         return null;
@@ -206,6 +252,12 @@ export class SetupWizard {
   }
 
   private async collectBasicConfig(detectedFiles: any): Promise<Partial<LocalzConfig>> {
+    if (detectedFiles.flutterL10n) {
+      const { settings } = detectedFiles.flutterL10n;
+      console.log(chalk.green(`✅ Found ${FlutterL10n.FILE_NAME}`));
+      console.log(chalk.gray(`   Template: ${path.relative(this.cwd, path.join(settings.arbDir, settings.templateArbFile))} → ${settings.outputLocalizationFile}`));
+    }
+
     if (detectedFiles.formats.length > 0) {
       console.log(chalk.green(`✅ Found existing localization files!`));
       console.log(chalk.gray(`   Formats: ${detectedFiles.formats.join(', ')}`));
@@ -243,12 +295,22 @@ export class SetupWizard {
           { name: 'JSON (JavaScript Object Notation)', value: 'json' },
           { name: 'YAML (YAML Ain\'t Markup Language)', value: 'yaml' },
           { name: 'CSV (Comma-Separated Values)', value: 'csv' },
-          { name: 'TSV (Tab-Separated Values)', value: 'tsv' }
+          { name: 'TSV (Tab-Separated Values)', value: 'tsv' },
+          { name: 'Android strings.xml (values-xx folders)', value: 'xml' },
+          { name: 'iOS Localizable.strings (xx.lproj folders)', value: 'strings' },
+          { name: 'iOS .stringsdict plurals (xx.lproj folders)', value: 'stringsdict' },
+          { name: 'Xcode String Catalog (.xcstrings)', value: 'xcstrings' },
+          { name: 'Gettext translations (.po)', value: 'po' },
+          { name: 'Gettext template (.pot)', value: 'pot' },
+          { name: 'Java .properties bundles', value: 'properties' },
+          { name: '.NET .resx resources', value: 'resx' },
+          { name: 'Mozilla Fluent (.ftl)', value: 'ftl' }
         ],
         default: detectedFiles.suggestedFormat === 'arb' ? 1 :
                  detectedFiles.suggestedFormat === 'json' ? 2 :
                  detectedFiles.suggestedFormat === 'yaml' ? 3 :
-                 detectedFiles.suggestedFormat === 'csv' ? 4 : 0
+                 detectedFiles.suggestedFormat === 'csv' ? 4 :
+                 detectedFiles.suggestedFormat === 'xml' ? 6 : 0
       },
       {
         type: 'input',
@@ -258,11 +320,12 @@ export class SetupWizard {
         validate: (input: any) => {
           const inputStr = String(input || '');
           if (!inputStr.trim()) return 'Source locale is required';
-          if (!/^[a-z]{2,3}([_-][A-Z]{2})?$/.test(inputStr)) {
-            return 'Please enter a valid locale code (e.g., en, es, en_US, pt_BR)';
+          if (!LocaleTag.isValid(inputStr)) {
+            return 'Please enter a valid locale code (e.g., en, es, en_US, pt_BR, zh_Hant_TW)';
           }
           return true;
-        }
+        },
+        filter: (input: any) => LocaleTag.canonicalize(String(input || '').trim())
       },
       {
         type: 'input',
@@ -276,13 +339,13 @@ export class SetupWizard {
           if (!inputStr.trim()) return 'At least one target locale is required';
           const locales = inputStr.split(',').map(l => l.trim());
           for (const locale of locales) {
-            if (!/^[a-z]{2,3}([_-][A-Z]{2})?$/.test(locale)) {
-              return `Invalid locale: ${locale}. Use format like: es,fr,de or en_US,pt_BR`;
+            if (!LocaleTag.isValid(locale)) {
+              return `Invalid locale: ${locale}. Use format like: es,fr,de or en_US,pt_BR,es_419`;
             }
           }
           return true;
         },
-        filter: (input: any) => String(input || '').split(',').map(l => l.trim()).filter(Boolean)
+        filter: (input: any) => String(input || '').split(',').map(l => l.trim()).filter(Boolean).map(l => LocaleTag.canonicalize(l))
       }
     ];
 
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { YamlPatcher } from './yaml-patcher';
+
+describe('YamlPatcher', () => {
+  it('changes only the edited values and keeps comments, quoting and anchors', () => {
+    const original = [
+      '# Strings',
+      'defaults: &defaults',
+      '  ok: OK',
+      'buttons:',
+      '  <<: *defaults',
+      "  save: 'Save' # primary",
+      '  cancel: "Cancel"',
+      ''
+    ].join('\n');
+    const value = { defaults: { ok: 'OK' }, buttons: { ok: 'OK', save: 'Store', cancel: 'Cancel' } };
+    expect(YamlPatcher.patch(original, value)).toBe(original.replace("'Save'", "'Store'"));
+  });
+
+  it('adds and removes keys at the surrounding indentation', () => {
+    const original = 'a:\n    b: B\n    c: C\n';
+    expect(YamlPatcher.patch(original, { a: { b: 'B', d: 'D' }, e: 'E' })).toBe('a:\n    b: B\n    d: D\ne: E\n');
+  });
+
+  it('quotes values that would read back as another type', () => {
+    expect(YamlPatcher.patch('count: many\n', { count: '5' })).toBe('count: "5"\n');
+  });
+
+  it('patches the document that holds each key', () => {
+    const original = 'a: A\n---\nb: B\n';
+    expect(YamlPatcher.patch(original, { a: 'A', b: 'Changed', c: 'C' })).toBe('a: A\nc: C\n---\nb: Changed\n');
+  });
+
+  it('patches one Rails locale root and adds new ones', () => {
+    const original = 'en:\n  hello: Hello\n---\nes:\n  hello: Hola\n';
+    expect(YamlPatcher.patch(original, { hello: 'Buenas' }, 'es')).toBe('en:\n  hello: Hello\n---\nes:\n  hello: Buenas\n');
+    expect(YamlPatcher.patch(original, { hello: 'Olá' }, 'pt')).toBe('en:\n  hello: Hello\npt:\n  hello: Olá\n---\nes:\n  hello: Hola\n');
+  });
+
+  it('gives up when a key or root is held by more than one document', () => {
+    expect(YamlPatcher.patch('a: A\n---\na: B\n', { a: 'C' })).toBeNull();
+    expect(YamlPatcher.patch('en:\n  a: A\n---\nen:\n  b: B\n', { a: 'A', b: 'C' }, 'en')).toBeNull();
+  });
+
+  it('gives up on documents that are not block mappings', () => {
+    expect(YamlPatcher.patch('{a: A}\n', { a: 'B' })).toBeNull();
+    expect(YamlPatcher.patch('a: [\n', { a: 'B' })).toBeNull();
+  });
+});
@@ -0,0 +1,193 @@
+import * as YAML from 'yaml';
+import * as lodash from 'lodash';
+import { JsonValue } from '../types';
+
+type BlockMap = YAML.CST.BlockMap;
+type MapItem = BlockMap['items'][number];
+type JsonObject = { [key: string]: JsonValue };
+
+const SCALAR_TYPES = ['scalar', 'single-quoted-scalar', 'double-quoted-scalar', 'block-scalar'];
+
+export class YamlPatcher {
+  // Edits the concrete syntax tree of `original` so that it holds `value`,
+  // touching only the keys whose values changed. Comments, quoting style,
+  // anchors and merge keys (`<<: *defaults`) elsewhere are left byte-identical.
+  // In a multi-document file each top-level key is patched in the document
+  // that holds it; with a `root` (a Rails locale key), only the document
+  // holding that key is patched under it. Returns null when the original
+  // cannot be patched, or when a key is held by more than one document.
+  static patch(original: string, value: JsonObject, root?: string): string | null {
+    const parsed = YAML.parseAllDocuments(original, { merge: true });
+    if (parsed.some(document => document.errors.length > 0)) return null;
+    const resolved = parsed.map(document => {
+      const js: unknown = document.toJS();
+      return this.isObject(js) ? js : {};
+    });
+
+    const tokens = Array.from(new YAML.Parser().parse(original));
+    const documents = tokens.filter((token): token is YAML.CST.Document => token.type === 'document');
+    const maps = documents.map(document => document.value?.type === 'block-map' ? document.value : undefined);
+    const unit = maps.map(map => map && this.indentUnit(map)).find(Boolean) || 2;
+    const holders = (key: string) => resolved.flatMap((document, index) => key in document ? [index] : []);
+    // Keys new to the file go into the first document
+    const first = maps.findIndex(map => map !== undefined);
+    if (first === -1) return null;
+
+    if (root === undefined) {
+      const parts = maps.map((): JsonObject => ({}));
+      for (const [key, keyValue] of Object.entries(value)) {
+        const held = holders(key);
+        if (held.length > 1) return null;
+        parts[held[0] ?? first][key] = keyValue;
+      }
+      for (const [index, map] of maps.entries()) {
+        if (!map) {
+          if (Object.keys(parts[index]).length > 0 || Object.keys(resolved[index]).length > 0) return null;
+          continue;
+        }
+        this.patchMap(map, resolved[index], parts[index], unit);
+      }
+    } else {
+      const held = holders(root);
+      if (held.length > 1) return null;
+      if (held.length === 1) {
+        const map = maps[held[0]];
+        const item = map?.items.find(item => this.keyOf(item) === root);
+        if (!map || !item) return null;
+        this.patchValue(item, resolved[held[0]][root], value, map.indent, unit);
+      } else {
+        // A locale added to a file that already holds other locale roots
+        const map = maps[first]!;
+        this.insertItem(map, map.items.length, this.createItem(root, value, map.indent, unit));
+      }
+    }
+
+    const output = tokens.map(token => YAML.CST.stringify(token)).join('');
+    if (original.endsWith('\n') && !output.endsWith('\n')) return output + '\n';
+    if (!original.endsWith('\n') && output.endsWith('\n')) return output.replace(/\r?\n$/, '');
+    return output;
+  }
+
+  private static patchMap(map: BlockMap, oldObject: Record<string, unknown> | undefined, newObject: JsonObject, unit: number): void {
+    for (let index = map.items.length - 1; index >= 0; index--) {
+      const key = this.keyOf(map.items[index]);
+      if (key === undefined || key === '<<' || key in newObject) continue;
+      this.removeItem(map, index);
+    }
+
+    let previous = -1;
+    for (const [key, value] of Object.entries(newObject)) {
+      const index = map.items.findIndex(item => this.keyOf(item) === key);
+      if (index !== -1) {
+        this.patchValue(map.items[index], oldObject?.[key], value, map.indent, unit);
+        previous = index;
+        continue;
+      }
+
+      // Keys inherited through a merge key only need writing once they differ
+      if (oldObject && key in oldObject && this.isSame(oldObject[key], value)) continue;
+
+      this.insertItem(map, previous + 1, this.createItem(key, value, map.indent, unit));
+      previous++;
+    }
+  }
+
+  private static patchValue(item: MapItem, oldValue: unknown, newValue: JsonValue, indent: number, unit: number): void {
+    if (this.isSame(oldValue, newValue)) return;
+
+    const token = item.value;
+    if (token?.type === 'block-map' && this.isObject(oldValue) && this.isObject(newValue)) {
+      this.patchMap(token, oldValue, newValue, unit);
+      if (token.items.length > 0) return;
+    } else if (token && typeof newValue === 'string' && SCALAR_TYPES.includes(token.type)) {
+      // A plain scalar that would read back as a number, boolean or null gets quoted
+      const type = token.type === 'scalar' && !this.isPlainString(newValue) ? 'QUOTE_DOUBLE' : undefined;
+      YAML.CST.setScalarValue(token, newValue, { afterKey: true, type });
+      return;
+    }
+
+    // Type changes, aliases and flow collections are replaced wholesale
+    const replacement = this.createItem('_', newValue, indent, unit);
+    item.sep = replacement.sep;
+    item.value = replacement.value;
+  }
+
+  // Builds a new item by parsing a rendering of `{ key: value }` at the map's indentation
+  private static createItem(key: string, value: JsonValue, indent: number, unit: number): MapItem {
+    const snippet = YAML.stringify({ [key]: value }, { indent: unit })
+      .split('\n')
+      .map(line => line ? ' '.repeat(indent) + line : line)
+      .join('\n');
+    const document = Array.from(new YAML.Parser().parse(snippet))
+      .find((token): token is YAML.CST.Document => token.type === 'document')!;
+    const item = (document.value as BlockMap).items[0];
+    return { ...item, start: indent > 0 ? [this.sourceToken('space', ' '.repeat(indent))] : [] } as MapItem;
+  }
+
+  // The first item's indentation is written before the map itself, so the
+  // item that becomes (or stops being) first swaps its leading space token
+  private static insertItem(map: BlockMap, index: number, item: MapItem): void {
+    if (index === 0 && map.items.length > 0) {
+      map.items[0].start.unshift(...item.start);
+      item.start = [];
+    }
+
+    const previous = map.items[index - 1];
+    if (previous && !YAML.CST.stringify(previous).endsWith('\n')) {
+      item.start.unshift(this.sourceToken('newline', '\n'));
+    }
+
+    map.items.splice(index, 0, item);
+  }
+
+  private static removeItem(map: BlockMap, index: number): void {
+    map.items.splice(index, 1);
+    if (index === 0 && map.items.length > 0 && map.items[0].start[0]?.type === 'space') {
+      map.items[0].start.shift();
+    }
+  }
+
+  private static keyOf(item: MapItem): string | undefined {
+    if (!item.key) return undefined;
+    const scalar = YAML.CST.resolveAsScalar(item.key);
+    return scalar ? scalar.value : undefined;
+  }
+
+  private static isSame(oldValue: unknown, newValue: unknown): boolean {
+    if (this.isObject(newValue)) {
+      return this.isObject(oldValue)
+        && Object.keys(oldValue).length === Object.keys(newValue).length
+        && Object.keys(newValue).every(key => key in oldValue && this.isSame(oldValue[key], newValue[key]));
+    }
+    if (Array.isArray(newValue)) {
+      return lodash.isEqual(oldValue, newValue);
+    }
+    // Entries hold strings, so `count: 5` in the file matches the value "5"
+    return oldValue !== undefined && oldValue !== null && typeof oldValue !== 'object' && String(oldValue) === String(newValue);
+  }
+
+  private static isObject(value: unknown): value is JsonObject {
+    return lodash.isPlainObject(value);
+  }
+
+  private static isPlainString(value: string): boolean {
+    try {
+      return YAML.parse(value) === value;
+    } catch {
+      return false;
+    }
+  }
+
+  private static indentUnit(map: BlockMap): number | undefined {
+    for (const item of map.items) {
+      if (item.value?.type === 'block-map') {
+        return item.value.indent - map.indent;
+      }
+    }
+    return undefined;
+  }
+
+  private static sourceToken(type: 'space' | 'newline', source: string): YAML.CST.SourceToken {
+    return { type, offset: -1, indent: 0, source };
+  }
+}